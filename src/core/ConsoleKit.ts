@@ -1,7 +1,16 @@
 import { Spinner } from '@core/Spinner'
 import { Progress } from '@core/Progress'
-import type { SpinnerOptions } from '@interfaces/Spinner'
+import { MultiSpinner } from '@core/MultiSpinner'
+import { MultiProgress } from '@core/MultiProgress'
+import { ProgressStream } from '@core/ProgressStream'
+import { TaskList } from '@core/TaskList'
+import { style } from '@utils/Style'
+import type { SpinnerOptions, SpinnerTaskOptions, SpinnerWork } from '@interfaces/Spinner'
 import type { ProgressOptions } from '@interfaces/Progress'
+import type { MultiSpinnerOptions } from '@interfaces/MultiSpinner'
+import type { MultiProgressOptions } from '@interfaces/MultiProgress'
+import type { TaskContext, TaskDefinition, TaskListOptions } from '@interfaces/TaskList'
+import type { Styler } from '@interfaces/Style'
 
 /**
  * ConsoleKit - Main utility class for creating terminal UI elements
@@ -11,6 +20,11 @@ import type { ProgressOptions } from '@interfaces/Progress'
  * primary entry point for creating terminal UI elements.
  */
 export class ConsoleKit {
+  /**
+   * Chainable styler for plain text output, e.g. ConsoleKit.style.red.bold('text')
+   */
+  static readonly style: Styler = style
+
   /**
    * Creates a new spinner instance for terminal loading animations
    *
@@ -26,6 +40,25 @@ export class ConsoleKit {
     return new Spinner(spinnerOptions)
   }
 
+  /**
+   * Runs a promise or async function with a spinner that completes automatically
+   *
+   * Shows a spinner while the work is pending, then displays a success or failure
+   * message. Resolves to the work's value and re-throws the original error.
+   *
+   * @param textOrOptions - Spinner text, or spinner options with success and failure messages
+   * @param work - Promise to wait for, or function returning a value or promise
+   * @returns The value the work resolved to
+   */
+  static async task<T>(
+    textOrOptions: string | SpinnerTaskOptions<T>,
+    work: SpinnerWork<T>
+  ): Promise<T> {
+    const { successText, failText, ...spinnerOptions } =
+      typeof textOrOptions === 'string' ? { text: textOrOptions } : textOrOptions
+    return new Spinner(spinnerOptions).promise(work, { successText, failText })
+  }
+
   /**
    * Creates a new progress bar instance for terminal progress tracking
    *
@@ -33,11 +66,111 @@ export class ConsoleKit {
    * @param options - Configuration options for progress bar appearance and behavior
    * @returns A configured Progress instance ready for use
    */
-  static progress(text: string, options: ProgressOptions): Progress {
+  static progress(text: string, options: ProgressOptions = {}): Progress {
     const progressOptions: ProgressOptions = {
       text,
       ...options
     }
     return new Progress(progressOptions)
   }
+
+  /**
+   * Creates a new container rendering several spinners on separate lines
+   *
+   * @param options - Configuration options for the shared output stream and rendering mode
+   * @returns A MultiSpinner instance ready for adding spinner lines
+   */
+  static multiSpinner(options?: MultiSpinnerOptions): MultiSpinner {
+    return new MultiSpinner(options)
+  }
+
+  /**
+   * Creates a new container rendering several progress bars on separate lines
+   *
+   * @param options - Configuration options for the shared output stream, mode and aggregate bar
+   * @returns A MultiProgress instance ready for adding progress bars
+   */
+  static multiProgress(options?: MultiProgressOptions): MultiProgress {
+    return new MultiProgress(options)
+  }
+
+  /**
+   * Creates a hierarchical task list rendering an indented tree of spinners
+   *
+   * @param tasks - Declarations of the top-level tasks and their subtasks
+   * @param options - Configuration options for execution, appearance and rendering mode
+   * @returns A TaskList instance ready to run
+   */
+  static tasks<C = TaskContext>(
+    tasks: TaskDefinition<C>[],
+    options?: TaskListOptions
+  ): TaskList<C> {
+    return new TaskList(tasks, options)
+  }
+
+  /**
+   * Wraps an iterable or async iterable with a progress bar advancing once per item
+   *
+   * The total is inferred from arrays, sets, maps and array-like objects when not given;
+   * other sources, or an explicit total of null, use an indeterminate bar. The bar
+   * completes when the iteration ends, fails when the source throws, and is cleared
+   * when the loop exits early.
+   *
+   * @param source - Iterable or async iterable to track
+   * @param options - Configuration options for progress bar appearance and behavior
+   * @returns Async iterable yielding the items of the source
+   */
+  static async *track<T>(
+    source: Iterable<T> | AsyncIterable<T>,
+    options: ProgressOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    const progress = new Progress({
+      ...options,
+      total: options.total === undefined ? ConsoleKit.inferTotal(source) : options.total
+    })
+    let settled = false
+    await progress.start()
+    try {
+      for await (const item of source) {
+        yield item
+        progress.increment(1)
+      }
+      settled = true
+      await progress.complete()
+    } catch (error) {
+      settled = true
+      await progress.fail()
+      throw error
+    } finally {
+      if (!settled) {
+        await progress.stop()
+      }
+    }
+  }
+
+  /**
+   * Creates a transform stream advancing a progress bar by the bytes passed through
+   *
+   * @param options - Progress options where total is the expected number of bytes
+   * @returns A ProgressStream to place between a source and a destination
+   */
+  static progressStream(options?: ProgressOptions): ProgressStream {
+    return new ProgressStream(options)
+  }
+
+  /**
+   * Infers the number of items of an iterable without consuming it
+   *
+   * @param source - Iterable or async iterable to inspect
+   * @returns Item count for arrays, sets, maps and array-like objects, otherwise undefined
+   */
+  private static inferTotal(source: unknown): number | undefined {
+    let count: unknown
+    if (source instanceof Set || source instanceof Map) {
+      count = source.size
+    } else {
+      count = (source as { length?: unknown }).length
+    }
+    return typeof count === 'number' && count > 0 ? count : undefined
+  }
 }
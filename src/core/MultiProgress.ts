@@ -0,0 +1,599 @@
+import { Progress } from '@core/Progress'
+import { getColorLevel } from '@utils/Colors'
+import {
+  HIDE_CURSOR,
+  SHOW_CURSOR,
+  eraseLines,
+  getRedrawInterval,
+  isInteractiveStream
+} from '@utils/Terminal'
+import { registerActiveComponent, unregisterActiveComponent, writeOutput } from '@utils/Output'
+import type { ColorLevel } from '@interfaces/Colors'
+import type { ActiveComponent } from '@interfaces/Output'
+import type { CompletionStatus } from '@interfaces/Spinner'
+import type { ProgressOptions, ProgressPayload } from '@interfaces/Progress'
+import type {
+  MultiProgressOptions,
+  MultiProgressOptionsInternal,
+  MultiProgressState
+} from '@interfaces/MultiProgress'
+
+/**
+ * MultiProgressBar - Single progress bar managed by a MultiProgress container
+ *
+ * Returned by MultiProgress.add(). Each bar can be updated, completed and removed
+ * independently while the container takes care of drawing all bars.
+ */
+export class MultiProgressBar {
+  /** Progress instance holding the value and formatting the bar line */
+  private readonly progress: Progress
+  /** Callback notifying the container that the bar changed */
+  private readonly onChange: (bar: MultiProgressBar) => void
+  /** Callback asking the container to remove the bar */
+  private readonly onRemove: (bar: MultiProgressBar) => void
+  /** Current text displayed with the bar */
+  private text: string
+  /** Final state of the bar, or null while it is still active */
+  private completion: CompletionStatus | null = null
+
+  /**
+   * Creates a new bar bound to its container
+   *
+   * @param text - Initial text to display alongside the progress bar
+   * @param progress - Progress instance holding the value and formatting the bar line
+   * @param onChange - Callback notifying the container that the bar changed
+   * @param onRemove - Callback asking the container to remove the bar
+   */
+  constructor(
+    text: string,
+    progress: Progress,
+    onChange: (bar: MultiProgressBar) => void,
+    onRemove: (bar: MultiProgressBar) => void
+  ) {
+    this.text = text
+    this.progress = progress
+    this.onChange = onChange
+    this.onRemove = onRemove
+  }
+
+  /**
+   * Final state of the bar, or null while it is still active
+   */
+  get status(): CompletionStatus | null {
+    return this.completion
+  }
+
+  /**
+   * Current text displayed with the bar
+   */
+  get currentText(): string {
+    return this.text
+  }
+
+  /**
+   * Current progress value
+   */
+  get current(): number {
+    return this.progress.current
+  }
+
+  /**
+   * Total value for progress calculation, or null while indeterminate
+   */
+  get total(): number | null {
+    return this.progress.total
+  }
+
+  /**
+   * Updates the current progress value and redraws the container
+   *
+   * @param current - New current progress value (clamped between 0 and total when known)
+   * @param payload - Optional values for custom format template tokens (merged with existing ones)
+   */
+  update(current: number, payload?: ProgressPayload): void {
+    if (this.completion) {
+      return
+    }
+    this.progress.update(current, payload)
+    this.onChange(this)
+  }
+
+  /**
+   * Increments the current progress value by the specified amount
+   *
+   * @param amount - Amount to increment the progress by (can be negative for decrement)
+   * @param segment - Optional name of the stacked segment to advance
+   */
+  increment(amount: number, segment?: string): void {
+    if (this.completion) {
+      return
+    }
+    this.progress.increment(amount, segment)
+    this.onChange(this)
+  }
+
+  /**
+   * Sets the total value, switching an indeterminate bar to determinate mode
+   *
+   * @param total - New total value (must be a positive finite number)
+   */
+  setTotal(total: number): void {
+    if (this.completion) {
+      return
+    }
+    this.progress.setTotal(total)
+    this.onChange(this)
+  }
+
+  /**
+   * Adds to the total value as more work is discovered
+   *
+   * @param amount - Amount to add to the total (the resulting total must stay positive)
+   */
+  addTotal(amount: number): void {
+    if (this.completion) {
+      return
+    }
+    this.progress.addTotal(amount)
+    this.onChange(this)
+  }
+
+  /**
+   * Changes the animation speed of the bar
+   *
+   * @param speed - Positive speed multiplier (1 restores the configured interval)
+   */
+  setSpeed(speed: number): void {
+    this.progress.setSpeed(speed)
+    this.onChange(this)
+  }
+
+  /**
+   * Effective time between two redraws of the bar in milliseconds
+   */
+  get frameInterval(): number {
+    return this.progress.frameInterval
+  }
+
+  /**
+   * Updates the bar text while maintaining the current progress state
+   *
+   * @param text - New text to display alongside the progress bar
+   */
+  updateText(text: string): void {
+    if (this.completion) {
+      return
+    }
+    this.text = text
+    this.progress.updateText(text)
+    this.onChange(this)
+  }
+
+  /**
+   * Sets the bar to 100% and completes it with a success message
+   */
+  complete(): void {
+    if (this.completion) {
+      return
+    }
+    if (this.progress.total !== null) {
+      this.progress.update(this.progress.total)
+    }
+    this.succeed()
+  }
+
+  /**
+   * Completes the bar with a success message and green checkmark
+   *
+   * @param text - Optional success message text (uses current bar text if not provided)
+   */
+  succeed(text?: string): void {
+    this.finish('succeed', text)
+  }
+
+  /**
+   * Completes the bar with an error message and red X mark
+   *
+   * @param text - Optional error message text (uses current bar text if not provided)
+   */
+  fail(text?: string): void {
+    this.finish('fail', text)
+  }
+
+  /**
+   * Completes the bar with a warning message and yellow warning symbol
+   *
+   * @param text - Optional warning message text (uses current bar text if not provided)
+   */
+  warn(text?: string): void {
+    this.finish('warn', text)
+  }
+
+  /**
+   * Completes the bar with an info message and blue info symbol
+   *
+   * @param text - Optional info message text (uses current bar text if not provided)
+   */
+  info(text?: string): void {
+    this.finish('info', text)
+  }
+
+  /**
+   * Removes the bar from its container without printing a completion line
+   */
+  remove(): void {
+    void this.progress.stop()
+    this.onRemove(this)
+  }
+
+  /**
+   * Builds the line for this bar
+   *
+   * @param level - Color level to emit
+   * @returns Progress bar line while active, completion line once finished
+   */
+  format(level: ColorLevel): string {
+    if (this.completion) {
+      return this.progress.formatStatus(this.completion, this.text, level)
+    }
+    return this.progress.format()
+  }
+
+  /**
+   * Builds a fail line for this bar using its own symbols
+   *
+   * @param level - Color level to emit
+   * @param text - Optional message text (uses current bar text if not provided)
+   * @returns Styled fail line without trailing newline
+   */
+  formatFail(level: ColorLevel, text?: string): string {
+    return this.progress.formatStatus('fail', text || this.text, level)
+  }
+
+  /**
+   * Marks the bar as finished with the given status
+   *
+   * @param status - Final state determining the symbol and its color
+   * @param text - Optional message text (uses current bar text if not provided)
+   */
+  private finish(status: CompletionStatus, text?: string): void {
+    if (this.completion) {
+      return
+    }
+    this.completion = status
+    this.text = text || this.text
+    void this.progress.stop()
+    this.onChange(this)
+  }
+}
+
+/**
+ * MultiProgress - Container rendering several progress bars on separate lines
+ *
+ * Draws all active bars in a single redraw loop so concurrent transfers never tear
+ * each other's lines. Bars can be added and removed while running, and finished bars
+ * are printed permanently above the remaining active bars. An optional aggregate bar
+ * sums the values of all bars.
+ */
+export class MultiProgress {
+  /** Internal state management for the container instance */
+  private state: MultiProgressState
+  /** Progress bars in display order, including finished ones counted by the aggregate */
+  private bars: MultiProgressBar[] = []
+  /** Aggregate bar summing the values of all bars, or null when disabled */
+  private readonly aggregate: Progress | null
+  /** Timer reference for redraw loop */
+  private intervalId: ReturnType<typeof setInterval> | null = null
+  /** Time between two redraws of the running loop in milliseconds */
+  private redrawInterval = 0
+  /** Clear and redraw callbacks registered while the container is animating */
+  private readonly activeComponent: ActiveComponent = {
+    clear: () => this.clear(),
+    redraw: () => this.render(),
+    abort: fail => this.abort(fail)
+  }
+  /** Default configuration options with fallback values */
+  private readonly defaultOptions: MultiProgressOptionsInternal = {
+    stream: process.stdout,
+    interactive: true,
+    hideCursor: true,
+    aggregate: null
+  }
+
+  /**
+   * Creates a new multi-progress container with the specified configuration
+   *
+   * @param options - Configuration options for the shared output stream, mode and aggregate bar
+   */
+  constructor(options: MultiProgressOptions = {}) {
+    const stream = options.stream ?? this.defaultOptions.stream
+    let { aggregate } = this.defaultOptions
+    if (options.aggregate === true) {
+      aggregate = { text: 'Total' }
+    } else if (options.aggregate) {
+      aggregate = { text: 'Total', ...options.aggregate }
+    }
+    this.state = {
+      isRunning: false,
+      renderedLines: 0,
+      aggregateMilestone: -1,
+      options: {
+        stream,
+        interactive: options.interactive ?? isInteractiveStream(stream),
+        hideCursor: options.hideCursor ?? this.defaultOptions.hideCursor,
+        aggregate
+      }
+    }
+    this.aggregate = aggregate ? new Progress({ ...aggregate, stream, interactive: false }) : null
+  }
+
+  /**
+   * Adds a new progress bar below the active ones
+   *
+   * @param text - Text to display alongside the progress bar
+   * @param options - Progress options for this bar (stream and mode come from the container)
+   * @returns Bar handle for updating, completing and removing the progress bar
+   * @throws Error if options are invalid
+   */
+  add(text: string, options: ProgressOptions = {}): MultiProgressBar {
+    const progress = new Progress({
+      ...options,
+      text,
+      stream: this.state.options.stream,
+      interactive: false
+    })
+    progress.startManaged()
+    const bar = new MultiProgressBar(
+      text,
+      progress,
+      changed => this.handleChange(changed),
+      removed => this.remove(removed)
+    )
+    this.bars.push(bar)
+    this.syncAggregate()
+    if (this.state.isRunning && !this.state.options.interactive) {
+      this.write(`- ${text}\n`)
+    }
+    this.render()
+    if (this.intervalId) {
+      this.runRedrawLoop()
+    }
+    return bar
+  }
+
+  /**
+   * Removes a progress bar from the container without printing a completion line
+   *
+   * @param bar - Bar to remove
+   */
+  remove(bar: MultiProgressBar): void {
+    this.bars = this.bars.filter(existing => existing !== bar)
+    this.syncAggregate()
+    this.printAggregateMilestone()
+    this.render()
+    if (this.intervalId) {
+      this.runRedrawLoop()
+    }
+  }
+
+  /**
+   * Starts the shared redraw loop for all progress bars
+   *
+   * Bars finished before the start print their completion line first. In line-based
+   * mode the text of each active bar and the aggregate bar are printed once instead.
+   */
+  async start(): Promise<void> {
+    if (this.state.isRunning) {
+      return
+    }
+    this.state.isRunning = true
+    this.state.aggregateMilestone = -1
+    registerActiveComponent(this.activeComponent)
+    this.aggregate?.startManaged()
+    this.syncAggregate()
+    const level = getColorLevel(this.state.options.stream)
+    this.bars.filter(bar => bar.status).forEach(bar => this.write(`${bar.format(level)}\n`))
+    if (!this.state.options.interactive) {
+      this.bars.filter(bar => !bar.status).forEach(bar => this.write(`- ${bar.currentText}\n`))
+      this.printAggregateMilestone()
+      return
+    }
+    if (this.state.options.hideCursor) {
+      this.write(HIDE_CURSOR)
+    }
+    this.render()
+    this.runRedrawLoop()
+  }
+
+  /**
+   * Stops the redraw loop and clears the active bars, keeping printed completion lines
+   */
+  async stop(): Promise<void> {
+    if (!this.state.isRunning) {
+      return
+    }
+    this.state.isRunning = false
+    void this.aggregate?.stop()
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    if (this.state.options.interactive) {
+      this.clear()
+      if (this.state.options.hideCursor) {
+        this.write(SHOW_CURSOR)
+      }
+    }
+    unregisterActiveComponent(this.activeComponent)
+  }
+
+  /**
+   * Prints a message above the progress bars without breaking their animation
+   *
+   * Erases the drawn lines, prints the message and redraws the progress bars below it.
+   * When the container is not animating the message is printed as is.
+   *
+   * @param message - Message to print
+   */
+  log(message: string): void {
+    if (!this.state.isRunning || !this.state.options.interactive) {
+      this.write(`${message}\n`)
+      return
+    }
+    this.clear()
+    this.write(`${message}\n`)
+    this.render()
+  }
+
+  /**
+   * Reacts to bar updates by printing completion lines and redrawing active bars
+   *
+   * @param bar - Bar that changed
+   */
+  private handleChange(bar: MultiProgressBar): void {
+    this.syncAggregate()
+    if (!this.state.isRunning) {
+      return
+    }
+    if (this.intervalId) {
+      this.runRedrawLoop()
+    }
+    const level = getColorLevel(this.state.options.stream)
+    if (!this.state.options.interactive) {
+      if (bar.status) {
+        this.write(`${bar.format(level)}\n`)
+      }
+      this.printAggregateMilestone()
+      return
+    }
+    if (!bar.status) {
+      this.render()
+      return
+    }
+    this.write(`${eraseLines(this.state.renderedLines)}${bar.format(level)}\n`)
+    this.state.renderedLines = 0
+    this.render()
+  }
+
+  /**
+   * Runs the redraw loop at the shortest frame interval of the running bars
+   *
+   * A running loop is only restarted when that interval changed.
+   */
+  private runRedrawLoop(): void {
+    const interval = getRedrawInterval(
+      this.bars.filter(bar => !bar.status).map(bar => bar.frameInterval)
+    )
+    if (this.intervalId) {
+      if (interval === this.redrawInterval) {
+        return
+      }
+      clearInterval(this.intervalId)
+    }
+    this.redrawInterval = interval
+    this.intervalId = setInterval(() => this.render(), interval)
+  }
+
+  /**
+   * Updates the aggregate bar with the summed values of all bars
+   *
+   * Indeterminate bars are left out until their total is known. The aggregate
+   * bar is kept between updates so its elapsed time, rate and ETA stay accurate.
+   */
+  private syncAggregate(): void {
+    const determinate = this.bars.filter(bar => bar.total !== null)
+    const total = determinate.reduce((sum, bar) => sum + (bar.total ?? 0), 0)
+    if (!this.aggregate || total <= 0) {
+      return
+    }
+    if (total !== this.aggregate.total) {
+      this.aggregate.setTotal(total)
+    }
+    this.aggregate.update(determinate.reduce((sum, bar) => sum + bar.current, 0))
+  }
+
+  /**
+   * Prints the aggregate bar in line-based mode once it reaches a new 10% milestone
+   *
+   * Matches the milestones printed by a standalone progress bar in line-based mode.
+   */
+  private printAggregateMilestone(): void {
+    if (!this.state.isRunning || this.state.options.interactive) {
+      return
+    }
+    const aggregateLine = this.formatAggregate()
+    if (!this.aggregate?.total || aggregateLine === null) {
+      return
+    }
+    const milestone = Math.floor((this.aggregate.current / this.aggregate.total) * 10)
+    if (milestone > this.state.aggregateMilestone) {
+      this.state.aggregateMilestone = milestone
+      this.write(`${aggregateLine}\n`)
+    }
+  }
+
+  /**
+   * Builds the aggregate bar line
+   *
+   * @returns Aggregate progress line, or null when disabled or nothing to sum
+   */
+  private formatAggregate(): string | null {
+    const hasTotal = this.bars.some(bar => bar.total !== null)
+    return this.aggregate && hasTotal ? this.aggregate.format() : null
+  }
+
+  /**
+   * Redraws all active progress bars in place
+   *
+   * Erases the lines written by the previous frame and writes one line per active bar,
+   * followed by the aggregate bar when enabled.
+   */
+  private render(): void {
+    if (!this.state.isRunning || !this.state.options.interactive) {
+      return
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const lines = this.bars.filter(bar => !bar.status).map(bar => bar.format(level))
+    const aggregateLine = this.formatAggregate()
+    if (aggregateLine !== null) {
+      lines.push(aggregateLine)
+    }
+    this.write(`${eraseLines(this.state.renderedLines)}${lines.join('\n')}`)
+    this.state.renderedLines = lines.length
+  }
+
+  /**
+   * Stops the container synchronously when the process exits or is interrupted
+   *
+   * A fail line is printed for each unfinished bar, using the symbols of that bar.
+   *
+   * @param fail - True to use the text of each bar as fail text, or a custom fail text
+   */
+  private abort(fail: boolean | string): void {
+    const unfinished = this.bars.filter(entry => !entry.status)
+    void this.stop()
+    if (!fail) {
+      return
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const text = fail === true ? undefined : fail
+    unfinished.forEach(entry => this.write(`${entry.formatFail(level, text)}\n`))
+  }
+
+  /**
+   * Erases all lines drawn by the previous frame
+   */
+  private clear(): void {
+    this.write(eraseLines(this.state.renderedLines))
+    this.state.renderedLines = 0
+  }
+
+  /**
+   * Writes a chunk of output to the configured stream
+   *
+   * @param chunk - Raw terminal output including ANSI escape sequences
+   */
+  private write(chunk: string): void {
+    writeOutput(this.state.options.stream, chunk)
+  }
+}
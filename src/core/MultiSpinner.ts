@@ -0,0 +1,402 @@
+import { Spinner } from '@core/Spinner'
+import { getColorLevel } from '@utils/Colors'
+import {
+  HIDE_CURSOR,
+  SHOW_CURSOR,
+  eraseLines,
+  getRedrawInterval,
+  isInteractiveStream
+} from '@utils/Terminal'
+import { registerActiveComponent, unregisterActiveComponent, writeOutput } from '@utils/Output'
+import type { ColorLevel } from '@interfaces/Colors'
+import type { ActiveComponent } from '@interfaces/Output'
+import type { CompletionStatus, SpinnerOptions } from '@interfaces/Spinner'
+import type {
+  MultiSpinnerOptions,
+  MultiSpinnerOptionsInternal,
+  MultiSpinnerState
+} from '@interfaces/MultiSpinner'
+
+/**
+ * MultiSpinnerItem - Single spinner line managed by a MultiSpinner container
+ *
+ * Returned by MultiSpinner.add(). Each item can be updated and completed
+ * independently while the container takes care of drawing all lines.
+ */
+export class MultiSpinnerItem {
+  /** Spinner used to format the animated line */
+  private readonly spinner: Spinner
+  /** Callback notifying the container that the item changed */
+  private readonly onChange: (item: MultiSpinnerItem) => void
+  /** Current text displayed with the spinner */
+  private text: string
+  /** Final state of the item, or null while it is still running */
+  private completion: CompletionStatus | null = null
+
+  /**
+   * Creates a new item bound to its container
+   *
+   * @param text - Initial text to display alongside the spinner
+   * @param spinner - Spinner used to format the animated line
+   * @param onChange - Callback notifying the container that the item changed
+   */
+  constructor(text: string, spinner: Spinner, onChange: (item: MultiSpinnerItem) => void) {
+    this.text = text
+    this.spinner = spinner
+    this.onChange = onChange
+  }
+
+  /**
+   * Final state of the item, or null while it is still running
+   */
+  get status(): CompletionStatus | null {
+    return this.completion
+  }
+
+  /**
+   * Current text displayed with the item
+   */
+  get currentText(): string {
+    return this.text
+  }
+
+  /**
+   * Updates the item text while it keeps spinning
+   *
+   * @param text - New text to display alongside the spinner animation
+   */
+  updateText(text: string): void {
+    if (this.completion) {
+      return
+    }
+    this.text = text
+    this.spinner.updateText(text)
+    this.onChange(this)
+  }
+
+  /**
+   * Changes the animation speed of the item
+   *
+   * @param speed - Positive speed multiplier (1 restores the configured interval)
+   */
+  setSpeed(speed: number): void {
+    this.spinner.setSpeed(speed)
+    this.onChange(this)
+  }
+
+  /**
+   * Effective time between two frames of the item in milliseconds
+   */
+  get frameInterval(): number {
+    return this.spinner.frameInterval
+  }
+
+  /**
+   * Completes the item with a success message and green checkmark
+   *
+   * @param text - Optional success message text (uses current item text if not provided)
+   */
+  succeed(text?: string): void {
+    this.complete('succeed', text)
+  }
+
+  /**
+   * Completes the item with an error message and red X mark
+   *
+   * @param text - Optional error message text (uses current item text if not provided)
+   */
+  fail(text?: string): void {
+    this.complete('fail', text)
+  }
+
+  /**
+   * Completes the item with a warning message and yellow warning symbol
+   *
+   * @param text - Optional warning message text (uses current item text if not provided)
+   */
+  warn(text?: string): void {
+    this.complete('warn', text)
+  }
+
+  /**
+   * Completes the item with an info message and blue info symbol
+   *
+   * @param text - Optional info message text (uses current item text if not provided)
+   */
+  info(text?: string): void {
+    this.complete('info', text)
+  }
+
+  /**
+   * Builds the line for this item
+   *
+   * Each spinner advances at its own frame interval and speed.
+   *
+   * @param level - Color level to emit
+   * @returns Animated spinner line while running, completion line once finished
+   */
+  format(level: ColorLevel): string {
+    if (this.completion) {
+      return this.spinner.formatStatus(this.completion, this.text, level)
+    }
+    return this.spinner.format()
+  }
+
+  /**
+   * Builds a fail line for this item using its own symbols
+   *
+   * @param level - Color level to emit
+   * @param text - Optional message text (uses current item text if not provided)
+   * @returns Styled fail line without trailing newline
+   */
+  formatFail(level: ColorLevel, text?: string): string {
+    return this.spinner.formatStatus('fail', text || this.text, level)
+  }
+
+  /**
+   * Marks the item as finished with the given status
+   *
+   * @param status - Final state determining the symbol and its color
+   * @param text - Optional message text (uses current item text if not provided)
+   */
+  private complete(status: CompletionStatus, text?: string): void {
+    if (this.completion) {
+      return
+    }
+    this.completion = status
+    this.text = text || this.text
+    void this.spinner.stop()
+    this.onChange(this)
+  }
+}
+
+/**
+ * MultiSpinner - Container rendering several spinners on separate lines
+ *
+ * Draws all spinners in a single redraw loop so concurrent tasks never overwrite
+ * each other. Spinners can be added while running and completed independently;
+ * finished lines stay in place with their completion symbol.
+ */
+export class MultiSpinner {
+  /** Internal state management for the container instance */
+  private state: MultiSpinnerState
+  /** Spinner lines in display order */
+  private readonly items: MultiSpinnerItem[] = []
+  /** Timer reference for animation loop */
+  private intervalId: ReturnType<typeof setInterval> | null = null
+  /** Time between two redraws of the running loop in milliseconds */
+  private redrawInterval = 0
+  /** Clear and redraw callbacks registered while the container is animating */
+  private readonly activeComponent: ActiveComponent = {
+    clear: () => this.clear(),
+    redraw: () => this.render(),
+    abort: fail => this.abort(fail)
+  }
+  /** Default configuration options with fallback values */
+  private readonly defaultOptions: MultiSpinnerOptionsInternal = {
+    stream: process.stdout,
+    interactive: true,
+    hideCursor: true
+  }
+
+  /**
+   * Creates a new multi-spinner container with the specified configuration
+   *
+   * @param options - Configuration options for the shared output stream and rendering mode
+   */
+  constructor(options: MultiSpinnerOptions = {}) {
+    const stream = options.stream ?? this.defaultOptions.stream
+    this.state = {
+      isRunning: false,
+      renderedLines: 0,
+      options: {
+        stream,
+        interactive: options.interactive ?? isInteractiveStream(stream),
+        hideCursor: options.hideCursor ?? this.defaultOptions.hideCursor
+      }
+    }
+  }
+
+  /**
+   * Adds a new spinner line below the existing ones
+   *
+   * @param text - Text to display alongside the spinner animation
+   * @param options - Appearance options for this spinner (stream and mode come from the container)
+   * @returns Item handle for updating and completing the spinner
+   */
+  add(text: string, options: SpinnerOptions = {}): MultiSpinnerItem {
+    const spinner = new Spinner({
+      ...options,
+      text,
+      stream: this.state.options.stream,
+      interactive: false
+    })
+    spinner.startManaged()
+    const item = new MultiSpinnerItem(text, spinner, changed => this.handleChange(changed))
+    this.items.push(item)
+    if (this.state.isRunning && !this.state.options.interactive) {
+      this.write(`- ${text}\n`)
+    }
+    this.render()
+    if (this.intervalId) {
+      this.runRedrawLoop()
+    }
+    return item
+  }
+
+  /**
+   * Starts the shared animation loop for all spinner lines
+   *
+   * In line-based mode the text of each running spinner and the completion line of
+   * each finished one are printed once instead.
+   */
+  async start(): Promise<void> {
+    if (this.state.isRunning) {
+      return
+    }
+    this.state.isRunning = true
+    registerActiveComponent(this.activeComponent)
+    if (!this.state.options.interactive) {
+      const level = getColorLevel(this.state.options.stream)
+      this.items.forEach(item =>
+        this.write(item.status ? `${item.format(level)}\n` : `- ${item.currentText}\n`)
+      )
+      return
+    }
+    if (this.state.options.hideCursor) {
+      this.write(HIDE_CURSOR)
+    }
+    this.render()
+    this.runRedrawLoop()
+  }
+
+  /**
+   * Stops the animation loop, keeping finished lines and removing running ones
+   */
+  async stop(): Promise<void> {
+    if (!this.state.isRunning) {
+      return
+    }
+    this.state.isRunning = false
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    if (this.state.options.interactive) {
+      const level = getColorLevel(this.state.options.stream)
+      const lines = this.items.filter(item => item.status).map(item => item.format(level))
+      const output = lines.length > 0 ? `${lines.join('\n')}\n` : ''
+      const cursor = this.state.options.hideCursor ? SHOW_CURSOR : ''
+      this.write(`${eraseLines(this.state.renderedLines)}${output}${cursor}`)
+      this.state.renderedLines = 0
+    }
+    unregisterActiveComponent(this.activeComponent)
+  }
+
+  /**
+   * Prints a message above the spinners without breaking their animation
+   *
+   * Erases the drawn lines, prints the message and redraws the spinners below it.
+   * When the container is not animating the message is printed as is.
+   *
+   * @param message - Message to print
+   */
+  log(message: string): void {
+    if (!this.state.isRunning || !this.state.options.interactive) {
+      this.write(`${message}\n`)
+      return
+    }
+    this.clear()
+    this.write(`${message}\n`)
+    this.render()
+  }
+
+  /**
+   * Reacts to item updates by redrawing or printing completion lines
+   *
+   * @param item - Item that changed
+   */
+  private handleChange(item: MultiSpinnerItem): void {
+    if (!this.state.isRunning) {
+      return
+    }
+    if (this.state.options.interactive) {
+      this.render()
+      this.runRedrawLoop()
+      return
+    }
+    if (item.status) {
+      const level = getColorLevel(this.state.options.stream)
+      this.write(`${item.format(level)}\n`)
+    }
+  }
+
+  /**
+   * Runs the redraw loop at the shortest frame interval of the running spinners
+   *
+   * A running loop is only restarted when that interval changed.
+   */
+  private runRedrawLoop(): void {
+    const interval = getRedrawInterval(
+      this.items.filter(item => !item.status).map(item => item.frameInterval)
+    )
+    if (this.intervalId) {
+      if (interval === this.redrawInterval) {
+        return
+      }
+      clearInterval(this.intervalId)
+    }
+    this.redrawInterval = interval
+    this.intervalId = setInterval(() => this.render(), interval)
+  }
+
+  /**
+   * Redraws all spinner lines in place
+   *
+   * Erases the lines written by the previous frame and writes one line per item.
+   */
+  private render(): void {
+    if (!this.state.isRunning || !this.state.options.interactive) {
+      return
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const lines = this.items.map(item => item.format(level))
+    this.write(`${eraseLines(this.state.renderedLines)}${lines.join('\n')}`)
+    this.state.renderedLines = lines.length
+  }
+
+  /**
+   * Stops the container synchronously when the process exits or is interrupted
+   *
+   * A fail line is printed for each unfinished spinner, using the symbols of that spinner.
+   *
+   * @param fail - True to use the text of each spinner as fail text, or a custom fail text
+   */
+  private abort(fail: boolean | string): void {
+    const unfinished = this.items.filter(entry => !entry.status)
+    void this.stop()
+    if (!fail) {
+      return
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const text = fail === true ? undefined : fail
+    unfinished.forEach(entry => this.write(`${entry.formatFail(level, text)}\n`))
+  }
+
+  /**
+   * Erases all lines drawn by the previous frame
+   */
+  private clear(): void {
+    this.write(eraseLines(this.state.renderedLines))
+    this.state.renderedLines = 0
+  }
+
+  /**
+   * Writes a chunk of output to the configured stream
+   *
+   * @param chunk - Raw terminal output including ANSI escape sequences
+   */
+  private write(chunk: string): void {
+    writeOutput(this.state.options.stream, chunk)
+  }
+}
@@ -1,5 +1,40 @@
-import { getColorCode, getBackgroundColorCode, getStyleCode } from '@utils/Colors'
-import type { ProgressOptions, ProgressState, ProgressOptionsInternal } from '@interfaces/Progress'
+import {
+  getColorCode,
+  getBackgroundColorCode,
+  getStyleCode,
+  getUnderlineColorCode,
+  getResetCode,
+  getColorLevel,
+  validateColors,
+  resolveTextColor
+} from '@utils/Colors'
+import {
+  HIDE_CURSOR,
+  SHOW_CURSOR,
+  formatHyperlink,
+  isInteractiveStream,
+  visibleWidth
+} from '@utils/Terminal'
+import { registerActiveComponent, unregisterActiveComponent, writeOutput } from '@utils/Output'
+import { formatStatusLine, formatSymbolLine } from '@utils/Symbols'
+import {
+  formatDuration,
+  formatNumber,
+  formatRate,
+  formatValue,
+  renderTemplate
+} from '@utils/Format'
+import type {
+  ProgressOptions,
+  ProgressState,
+  ProgressOptionsInternal,
+  ProgressPayload,
+  ProgressBarStyle
+} from '@interfaces/Progress'
+import type { ColorLevel } from '@interfaces/Colors'
+import type { CompletionStatus } from '@interfaces/Spinner'
+import type { ActiveComponent } from '@interfaces/Output'
+import type { PersistOptions } from '@interfaces/Symbols'
 
 /**
  * Progress - Terminal progress bar component with customizable appearance
@@ -13,10 +48,38 @@ export class Progress {
   private state: ProgressState
   /** Timer reference for animation loop */
   private intervalId: ReturnType<typeof setInterval> | null = null
+  /** Minimum time in seconds between two rate samples */
+  private readonly RATE_SAMPLE_INTERVAL = 0.1
+  /** Weight of the newest sample in the exponential moving average of the rate */
+  private readonly RATE_SMOOTHING = 0.3
+  /** Partial block characters for smooth bars, indexed by eighths of a cell */
+  private readonly PARTIAL_BLOCKS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉'] as const
+  /** Filled and empty cell characters for each style, used by indeterminate and stacked bars */
+  private readonly STYLE_CHARS: Record<ProgressBarStyle, readonly [string, string]> = {
+    bar: ['█', '░'],
+    blocks: ['▣', '▢'],
+    dots: ['●', '○'],
+    smooth: ['█', ' '],
+    ascii: ['=', ' ']
+  }
+  /** Bar width used when 'auto' is requested but the stream reports no columns */
+  private readonly FALLBACK_WIDTH = 20
+  /** Redraws the progress bar when the terminal is resized */
+  private readonly handleResize = (): void => this.render()
+  /** Clear and redraw callbacks registered while the progress bar is animating */
+  private readonly activeComponent: ActiveComponent = {
+    clear: () => {
+      if (this.state.options.interactive) {
+        this.write('\r\x1b[K')
+      }
+    },
+    redraw: () => this.render(),
+    abort: fail => this.abort(fail)
+  }
   /** Default configuration options with fallback values */
   private readonly defaultOptions: ProgressOptionsInternal = {
     text: '',
-    total: 100,
+    total: null,
     current: 0,
     style: 'bar',
     color: 'cyan',
@@ -24,7 +87,30 @@ export class Progress {
     show: true,
     bold: false,
     italic: false,
-    underline: false
+    underline: false,
+    dim: false,
+    inverse: false,
+    strikethrough: false,
+    hidden: false,
+    overline: false,
+    doubleUnderline: false,
+    curlyUnderline: false,
+    blink: false,
+    underlineColor: '',
+    link: '',
+    stream: process.stdout,
+    interactive: true,
+    hideCursor: true,
+    symbols: {},
+    includePausedTime: false,
+    interval: 80,
+    format: '{bar} {percentage} {text}',
+    payload: {},
+    width: 20,
+    segments: [],
+    unit: 'items',
+    byteStandard: 'si',
+    locale: 'en-US'
   }
 
   /**
@@ -33,26 +119,74 @@ export class Progress {
    * @param options - Configuration options for progress bar appearance and behavior
    * @throws Error if options are invalid
    */
-  constructor(options: ProgressOptions) {
+  constructor(options: ProgressOptions = {}) {
     const validatedOptions = this.validateOptions(options)
+    const stream = validatedOptions.stream ?? this.defaultOptions.stream
     const mergedOptions: ProgressOptionsInternal = {
       text: validatedOptions.text ?? this.defaultOptions.text,
-      total: validatedOptions.total,
+      total: validatedOptions.total ?? this.defaultOptions.total,
       current: validatedOptions.current ?? this.defaultOptions.current,
       style: validatedOptions.style ?? this.defaultOptions.style,
-      color: validatedOptions.color ?? this.defaultOptions.color,
+      color: resolveTextColor(
+        validatedOptions.color,
+        validatedOptions.backgroundColor ?? this.defaultOptions.backgroundColor,
+        this.defaultOptions.color
+      ),
       backgroundColor: validatedOptions.backgroundColor ?? this.defaultOptions.backgroundColor,
       show: validatedOptions.show ?? this.defaultOptions.show,
       bold: validatedOptions.bold ?? this.defaultOptions.bold,
       italic: validatedOptions.italic ?? this.defaultOptions.italic,
-      underline: validatedOptions.underline ?? this.defaultOptions.underline
+      underline: validatedOptions.underline ?? this.defaultOptions.underline,
+      dim: validatedOptions.dim ?? this.defaultOptions.dim,
+      inverse: validatedOptions.inverse ?? this.defaultOptions.inverse,
+      strikethrough: validatedOptions.strikethrough ?? this.defaultOptions.strikethrough,
+      hidden: validatedOptions.hidden ?? this.defaultOptions.hidden,
+      overline: validatedOptions.overline ?? this.defaultOptions.overline,
+      doubleUnderline: validatedOptions.doubleUnderline ?? this.defaultOptions.doubleUnderline,
+      curlyUnderline: validatedOptions.curlyUnderline ?? this.defaultOptions.curlyUnderline,
+      blink: validatedOptions.blink ?? this.defaultOptions.blink,
+      underlineColor: validatedOptions.underlineColor ?? this.defaultOptions.underlineColor,
+      link: validatedOptions.link ?? this.defaultOptions.link,
+      stream,
+      interactive: validatedOptions.interactive ?? isInteractiveStream(stream),
+      hideCursor: validatedOptions.hideCursor ?? this.defaultOptions.hideCursor,
+      symbols: validatedOptions.symbols ?? this.defaultOptions.symbols,
+      includePausedTime:
+        validatedOptions.includePausedTime ?? this.defaultOptions.includePausedTime,
+      interval: validatedOptions.interval ?? this.defaultOptions.interval,
+      format: validatedOptions.format ?? this.defaultOptions.format,
+      payload: validatedOptions.payload ?? this.defaultOptions.payload,
+      width: validatedOptions.width ?? this.defaultOptions.width,
+      segments: validatedOptions.segments ?? this.defaultOptions.segments,
+      unit: validatedOptions.unit ?? this.defaultOptions.unit,
+      byteStandard: validatedOptions.byteStandard ?? this.defaultOptions.byteStandard,
+      locale: validatedOptions.locale ?? this.defaultOptions.locale
     }
+    const segmentValues = Object.fromEntries(
+      mergedOptions.segments.map((segment, index) => [
+        segment.name,
+        index === 0 ? mergedOptions.current : 0
+      ])
+    )
     this.state = {
       text: mergedOptions.text,
       total: mergedOptions.total,
       current: mergedOptions.current,
+      segmentValues,
       isRunning: false,
+      isPaused: false,
+      isManaged: false,
+      speed: 1,
       startTime: 0,
+      pausedAt: 0,
+      pausedTime: 0,
+      frameIndex: 0,
+      frameTime: 0,
+      lastMilestone: 0,
+      payload: { ...mergedOptions.payload },
+      rate: null,
+      lastSampleTime: 0,
+      lastSampleValue: 0,
       options: mergedOptions
     }
   }
@@ -66,9 +200,9 @@ export class Progress {
    */
   private validateOptions(options: ProgressOptions): ProgressOptions {
     if (
-      typeof options.total !== 'number' ||
-      !Number.isFinite(options.total) ||
-      options.total <= 0
+      options.total !== undefined &&
+      options.total !== null &&
+      !this.isValidTotal(options.total)
     ) {
       throw new Error('Progress total must be a positive finite number')
     }
@@ -76,22 +210,117 @@ export class Progress {
       if (typeof options.current !== 'number' || !Number.isFinite(options.current)) {
         throw new Error('Progress current must be a finite number')
       }
-      if (options.current < 0) {
-        options.current = 0
-      }
-      if (options.current > options.total) {
-        options.current = options.total
-      }
+      options.current = this.clampValue(options.current, options.total ?? null)
+    }
+    if (
+      options.style !== undefined &&
+      !['bar', 'blocks', 'dots', 'smooth', 'ascii'].includes(options.style)
+    ) {
+      throw new Error('Progress style must be one of: bar, blocks, dots, smooth, ascii')
+    }
+    if (
+      options.width !== undefined &&
+      options.width !== 'auto' &&
+      (!Number.isInteger(options.width) || options.width <= 0)
+    ) {
+      throw new Error('Progress width must be a positive integer or "auto"')
+    }
+    if (
+      options.interval !== undefined &&
+      (!Number.isFinite(options.interval) || options.interval <= 0)
+    ) {
+      throw new Error('Progress interval must be a positive finite number')
     }
-    if (options.style !== undefined && !['bar', 'blocks', 'dots'].includes(options.style)) {
-      throw new Error('Progress style must be one of: bar, blocks, dots')
+    if (options.segments !== undefined) {
+      const names = options.segments.map(segment => segment.name)
+      if (names.some(name => !name) || new Set(names).size !== names.length) {
+        throw new Error('Progress segments must have unique non-empty names')
+      }
     }
+    validateColors('Progress', {
+      color: options.color,
+      backgroundColor: options.backgroundColor,
+      underlineColor: options.underlineColor,
+      ...Object.fromEntries(
+        (options.segments ?? []).map(segment => [`segment "${segment.name}" color`, segment.color])
+      )
+    })
+    this.validateUnitOptions(options)
     return options
   }
 
+  /**
+   * Validates the unit, byte standard and locale used to format values
+   *
+   * @param options - Raw progress options to validate
+   * @throws Error if a formatting option is invalid
+   */
+  private validateUnitOptions(options: ProgressOptions): void {
+    if (options.unit === '') {
+      throw new Error('Progress unit must be a non-empty string or a formatter function')
+    }
+    if (options.byteStandard !== undefined && !['si', 'iec'].includes(options.byteStandard)) {
+      throw new Error('Progress byteStandard must be one of: si, iec')
+    }
+    if (options.locale !== undefined && !this.isValidLocale(options.locale)) {
+      throw new Error('Progress locale must be a valid BCP 47 language tag')
+    }
+  }
+
+  /**
+   * Checks whether a value can be used as progress total
+   *
+   * @param total - Value to check
+   * @returns True for positive finite numbers
+   */
+  private isValidTotal(total: unknown): total is number {
+    return typeof total === 'number' && Number.isFinite(total) && total > 0
+  }
+
+  /**
+   * Checks whether a locale tag is supported by Intl.NumberFormat
+   *
+   * @param locale - Locale tag to check
+   * @returns True if numbers can be formatted with the locale
+   */
+  private isValidLocale(locale: string): boolean {
+    try {
+      return Intl.NumberFormat.supportedLocalesOf(locale).length > 0
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Clamps a progress value between 0 and the total
+   *
+   * @param value - Progress value to clamp
+   * @param total - Total value, or null for indeterminate progress (no upper bound)
+   * @returns Clamped progress value
+   */
+  private clampValue(value: number, total: number | null): number {
+    return Math.max(0, total === null ? value : Math.min(total, value))
+  }
+
+  /**
+   * Current progress value
+   */
+  get current(): number {
+    return this.state.current
+  }
+
+  /**
+   * Total value for progress calculation, or null while indeterminate
+   */
+  get total(): number | null {
+    return this.state.total
+  }
+
   /**
    * Starts the progress bar with optional text update
    *
+   * In line-based mode the initial state is printed once and no animation loop is started.
+   *
    * @param text - Optional text to display with the progress bar (overrides existing text if provided)
    */
   async start(text?: string): Promise<void> {
@@ -101,46 +330,211 @@ export class Progress {
     if (text) {
       this.state.text = text
     }
-    this.state.isRunning = true
-    this.state.startTime = Date.now()
-    this.render()
-    this.intervalId = setInterval(() => this.render(), 80)
+    this.beginRun(false)
+    if (!this.state.options.interactive) {
+      this.state.lastMilestone = this.getMilestone()
+      this.renderMilestone()
+    }
+    this.startAnimation()
+  }
+
+  /**
+   * Starts the progress bar without writing any output
+   *
+   * Used by containers that draw several progress bars at once with format(), so
+   * elapsed time, rates and the indeterminate animation advance while the
+   * container redraws.
+   */
+  startManaged(): void {
+    if (this.state.isRunning) {
+      return
+    }
+    this.beginRun(true)
+  }
+
+  /**
+   * Pauses the progress bar without ending the task
+   *
+   * Clears the animated line and suspends the redraw loop, e.g. to show a prompt or the
+   * output of a child process. Values can still be updated while paused and are shown
+   * once the progress bar is resumed.
+   */
+  pause(): void {
+    if (!this.state.isRunning || this.state.isPaused) {
+      return
+    }
+    this.state.isPaused = true
+    this.state.pausedAt = Date.now()
+    this.stopAnimation()
+  }
+
+  /**
+   * Resumes a paused progress bar, keeping its start time and animation position
+   *
+   * The paused time is excluded from elapsed time and rate estimates unless
+   * includePausedTime is set.
+   */
+  resume(): void {
+    if (!this.state.isRunning || !this.state.isPaused) {
+      return
+    }
+    const now = Date.now()
+    this.state.isPaused = false
+    this.state.pausedTime += now - this.state.pausedAt
+    this.state.frameTime += now - this.state.pausedAt
+    this.state.pausedAt = 0
+    if (!this.state.options.includePausedTime) {
+      this.state.lastSampleTime = now
+      this.state.lastSampleValue = this.state.current
+    }
+    this.startAnimation()
+  }
+
+  /**
+   * Changes the animation speed at runtime
+   *
+   * The speed multiplies the redraw rate: 2 redraws and animates twice as fast,
+   * 0.5 at half speed, and 1 restores the configured interval.
+   *
+   * @param speed - Positive speed multiplier
+   */
+  setSpeed(speed: number): void {
+    if (!Number.isFinite(speed) || speed <= 0) {
+      console.warn('Progress setSpeed: Invalid speed provided, ignoring update')
+      return
+    }
+    if (this.state.isRunning) {
+      this.state.frameIndex = this.getFrame()
+      this.state.frameTime = this.state.isPaused ? this.state.pausedAt : Date.now()
+    }
+    this.state.speed = speed
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = setInterval(() => this.render(), this.getFrameInterval())
+    }
+  }
+
+  /**
+   * Effective time between two redraws in milliseconds, taking the speed into account
+   */
+  get frameInterval(): number {
+    return this.getFrameInterval()
+  }
+
+  /**
+   * Whether the progress bar is currently paused
+   */
+  get isPaused(): boolean {
+    return this.state.isPaused
   }
 
   /**
    * Updates the current progress value and re-renders the progress bar
    *
-   * @param current - New current progress value (will be clamped between 0 and total)
+   * In line-based mode a new line is printed only when a 10% milestone is crossed.
+   * On stacked bars an increase is added to the first segment and a decrease is
+   * taken from the segments in order, starting with the first one.
+   *
+   * @param current - New current progress value (clamped between 0 and total when known)
+   * @param payload - Optional values for custom format template tokens (merged with existing ones)
    */
-  update(current: number): void {
+  update(current: number, payload?: ProgressPayload): void {
     if (!Number.isFinite(current)) {
       console.warn('Progress update: Invalid value provided, ignoring update')
       return
     }
-    this.state.current = Math.max(0, Math.min(this.state.total, current))
-    if (this.state.isRunning) {
-      this.render()
+    if (payload) {
+      this.state.payload = { ...this.state.payload, ...payload }
+    }
+    const clamped = this.clampValue(current, this.state.total)
+    const { segments } = this.state.options
+    const [firstSegment] = segments
+    if (!firstSegment) {
+      this.state.current = clamped
+    } else if (clamped >= this.state.current) {
+      this.adjustSegment(firstSegment.name, clamped - this.state.current)
+    } else {
+      this.reduceSegments(
+        clamped,
+        segments.map(({ name }) => name)
+      )
     }
+    this.refresh()
   }
 
   /**
    * Increments the current progress value by the specified amount
    *
+   * On stacked bars the amount is added to the given segment (or the first segment).
+   *
    * @param amount - Amount to increment the progress by (can be negative for decrement)
+   * @param segment - Optional name of the stacked segment to advance
    */
-  increment(amount: number): void {
+  increment(amount: number, segment?: string): void {
     if (!Number.isFinite(amount)) {
       console.warn('Progress increment: Invalid amount provided, ignoring increment')
       return
     }
-    this.update(this.state.current + amount)
+    if (segment === undefined) {
+      this.update(this.state.current + amount)
+      return
+    }
+    if (!(segment in this.state.segmentValues)) {
+      console.warn('Progress increment: Unknown segment provided, ignoring increment')
+      return
+    }
+    const clamped = this.clampValue(this.state.current + amount, this.state.total)
+    this.adjustSegment(segment, clamped - this.state.current)
+    this.refresh()
+  }
+
+  /**
+   * Sets the total value, switching an indeterminate bar to determinate mode
+   *
+   * The current value is clamped to the new total and the bar is re-rendered
+   * without restarting. Stacked segments are reduced from the last one so their
+   * sum never exceeds the total.
+   *
+   * @param total - New total value (must be a positive finite number)
+   */
+  setTotal(total: number): void {
+    if (!this.isValidTotal(total)) {
+      console.warn('Progress setTotal: Invalid total provided, ignoring update')
+      return
+    }
+    this.state.total = total
+    if (this.state.options.segments.length === 0) {
+      this.update(this.state.current)
+      return
+    }
+    this.reduceSegments(total, this.state.options.segments.map(({ name }) => name).reverse())
+    this.refresh()
+  }
+
+  /**
+   * Adds to the total value as more work is discovered, rescaling the bar without restarting
+   *
+   * Indeterminate bars switch to determinate mode with the amount as total.
+   *
+   * @param amount - Amount to add to the total (the resulting total must stay positive)
+   */
+  addTotal(amount: number): void {
+    if (!Number.isFinite(amount)) {
+      console.warn('Progress addTotal: Invalid amount provided, ignoring update')
+      return
+    }
+    this.setTotal((this.state.total ?? 0) + amount)
   }
 
   /**
    * Sets the progress to 100% and displays completion
+   *
+   * Indeterminate bars keep their current value and only display completion.
    */
   async complete(): Promise<void> {
-    this.update(this.state.total)
+    if (this.state.total !== null) {
+      this.update(this.state.total)
+    }
     await this.succeed()
   }
 
@@ -150,10 +544,7 @@ export class Progress {
    * @param text - Optional success message text (uses current progress text if not provided)
    */
   async succeed(text?: string): Promise<void> {
-    await this.stop()
-    const message = text || this.state.text
-    const successColor = getColorCode('green')
-    process.stdout.write(`${successColor}✔\x1b[0m ${message}\n`)
+    await this.stopWithStatus('succeed', text)
   }
 
   /**
@@ -162,10 +553,7 @@ export class Progress {
    * @param text - Optional error message text (uses current progress text if not provided)
    */
   async fail(text?: string): Promise<void> {
-    await this.stop()
-    const message = text || this.state.text
-    const errorColor = getColorCode('red')
-    process.stdout.write(`${errorColor}✖\x1b[0m ${message}\n`)
+    await this.stopWithStatus('fail', text)
   }
 
   /**
@@ -174,10 +562,7 @@ export class Progress {
    * @param text - Optional warning message text (uses current progress text if not provided)
    */
   async warn(text?: string): Promise<void> {
-    await this.stop()
-    const message = text || this.state.text
-    const warningColor = getColorCode('yellow')
-    process.stdout.write(`${warningColor}⚠\x1b[0m ${message}\n`)
+    await this.stopWithStatus('warn', text)
   }
 
   /**
@@ -186,10 +571,19 @@ export class Progress {
    * @param text - Optional info message text (uses current progress text if not provided)
    */
   async info(text?: string): Promise<void> {
+    await this.stopWithStatus('info', text)
+  }
+
+  /**
+   * Stops the progress bar and persists an arbitrary final line
+   *
+   * @param options - Glyph, text and glyph color of the final line (no glyph when omitted)
+   */
+  async stopAndPersist(options: PersistOptions = {}): Promise<void> {
     await this.stop()
-    const message = text || this.state.text
-    const infoColor = getColorCode('blue')
-    process.stdout.write(`${infoColor}ℹ\x1b[0m ${message}\n`)
+    const level = getColorLevel(this.state.options.stream)
+    const message = this.linkText(options.text || this.state.text)
+    this.write(`${formatSymbolLine(options.symbol ?? '', message, options.color, level)}\n`)
   }
 
   /**
@@ -200,11 +594,28 @@ export class Progress {
       return
     }
     this.state.isRunning = false
-    if (this.intervalId) {
-      clearInterval(this.intervalId)
-      this.intervalId = null
+    if (this.state.isPaused) {
+      this.state.isPaused = false
+      return
+    }
+    this.stopAnimation()
+  }
+
+  /**
+   * Prints a message above the progress bar without breaking its animation
+   *
+   * Clears the animated line, prints the message on its own line and redraws the
+   * progress bar below it. When the progress bar is not animating the message is printed as is.
+   *
+   * @param message - Message to print
+   */
+  log(message: string): void {
+    if (!this.state.isRunning || this.state.isPaused || !this.state.options.interactive) {
+      this.write(`${message}\n`)
+      return
     }
-    process.stdout.write('\r\x1b[K')
+    this.write(`\r\x1b[K${message}\n`)
+    this.render()
   }
 
   /**
@@ -219,59 +630,354 @@ export class Progress {
     }
   }
 
+  /**
+   * Builds the progress bar line with applied colors and text styling
+   *
+   * Fills the format template with the visual bar, percentage, values, timing
+   * tokens and custom payload tokens. Used internally for rendering and by
+   * containers that draw several progress bars at once.
+   *
+   * @returns Styled progress line without cursor control sequences
+   */
+  format(): string {
+    const { current, total } = this.state
+    const percentage = total === null ? null : Math.min(100, Math.max(0, (current / total) * 100))
+    const rate = this.state.rate ?? 0
+    const { unit, byteStandard, locale } = this.state.options
+    const unitOptions = { standard: byteStandard, locale }
+    const tokens = {
+      ...this.state.payload,
+      ...this.state.segmentValues,
+      percentage: percentage === null ? '--%' : `${formatNumber(percentage, locale, 1)}%`,
+      value: formatValue(current, unit, unitOptions),
+      total: total === null ? '?' : formatValue(total, unit, unitOptions),
+      eta: formatDuration(this.getEta(rate)),
+      rate: formatRate(rate, unit, unitOptions),
+      elapsed: formatDuration(this.getElapsed()),
+      text: this.linkText(this.state.text, false)
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const color = this.state.options.color ? getColorCode(this.state.options.color, level) : ''
+    const backgroundColor = this.state.options.backgroundColor
+      ? getBackgroundColorCode(this.state.options.backgroundColor, level)
+      : ''
+    const styles = getStyleCode(this.state.options, level)
+    const underlineColor = this.state.options.underlineColor
+      ? getUnderlineColorCode(this.state.options.underlineColor, level)
+      : ''
+    const width = this.resolveWidth(renderTemplate(this.state.options.format, tokens).trimEnd())
+    let bar: string
+    if (percentage === null) {
+      bar = this.renderIndeterminate(width)
+    } else if (this.state.options.segments.length > 0) {
+      bar = this.renderStacked(width, color, level)
+    } else {
+      bar = this.renderVisualBar(percentage, width)
+    }
+    const line = renderTemplate(this.state.options.format, { ...tokens, bar }).trimEnd()
+    return `${styles}${underlineColor}${backgroundColor}${color}${line}${getResetCode(level)}`
+  }
+
+  /**
+   * Builds a completion line using the symbols configured for this progress bar
+   *
+   * Used internally for completion messages and by containers that draw several
+   * progress bars at once.
+   *
+   * @param status - Final state determining the symbol and its color
+   * @param text - Optional message text (uses current progress bar text if not provided)
+   * @param level - Color level to emit (defaults to the level of the output stream)
+   * @returns Styled completion line without trailing newline
+   */
+  formatStatus(
+    status: CompletionStatus,
+    text?: string,
+    level: ColorLevel = getColorLevel(this.state.options.stream)
+  ): string {
+    const message = this.linkText(text || this.state.text)
+    return formatStatusLine(status, message, level, this.state.options.symbols)
+  }
+
+  /**
+   * Re-renders the progress bar after a value change
+   *
+   * In line-based mode a new line is printed only when a 10% milestone is crossed.
+   */
+  private refresh(): void {
+    if (!this.state.isRunning || this.state.isPaused) {
+      return
+    }
+    this.sampleRate()
+    if (this.state.isManaged) {
+      return
+    }
+    if (this.state.options.interactive) {
+      this.render()
+      return
+    }
+    const milestone = this.getMilestone()
+    if (milestone > this.state.lastMilestone) {
+      this.state.lastMilestone = milestone
+      this.renderMilestone()
+    }
+  }
+
   /**
    * Renders the current progress bar with applied colors and text styling
    *
-   * Updates the terminal output with the current progress visualization,
-   * applying color codes, background colors, and text styling as configured.
-   * Handles different progress bar styles (bar, blocks, dots) and updates
-   * the display in real-time.
+   * Updates the terminal output in place with the current progress visualization.
    */
   private render(): void {
-    if (!this.state.isRunning || !this.state.options.show) {
+    if (!this.state.isRunning || this.state.isPaused) {
       return
     }
-    const { current, total } = this.state
-    const { style } = this.state.options
-    const percentage = total > 0 ? Math.min(100, Math.max(0, (current / total) * 100)) : 0
-    let visualBar: string
-    switch (style) {
-      case 'bar':
-        visualBar = this.renderBarStyle(percentage)
-        break
+    if (!this.state.options.show || !this.state.options.interactive) {
+      return
+    }
+    this.write(`\r\x1b[K${this.format()}`)
+  }
+
+  /**
+   * Starts the redraw loop, hides the cursor and registers the progress bar as active
+   *
+   * In line-based mode the progress bar is only registered, so it is still stopped on exit.
+   */
+  private startAnimation(): void {
+    registerActiveComponent(this.activeComponent)
+    if (!this.state.options.interactive) {
+      return
+    }
+    if (this.state.options.hideCursor) {
+      this.write(HIDE_CURSOR)
+    }
+    this.render()
+    this.intervalId = setInterval(() => this.render(), this.getFrameInterval())
+    if (this.state.options.width === 'auto') {
+      this.state.options.stream.on('resize', this.handleResize)
+    }
+  }
+
+  /**
+   * Marks the progress bar as running and resets its timing and animation state
+   *
+   * @param managed - Whether a container draws the progress bar
+   */
+  private beginRun(managed: boolean): void {
+    this.state.isRunning = true
+    this.state.isPaused = false
+    this.state.isManaged = managed
+    this.state.startTime = Date.now()
+    this.state.pausedAt = 0
+    this.state.pausedTime = 0
+    this.state.frameIndex = 0
+    this.state.frameTime = this.state.startTime
+    this.state.rate = null
+    this.state.lastSampleTime = this.state.startTime
+    this.state.lastSampleValue = this.state.current
+  }
+
+  /**
+   * Calculates the current position in the indeterminate animation sequence
+   *
+   * Frames advance with time at the frame interval, so redraws caused by value
+   * updates do not speed up the animation. Paused time is skipped.
+   *
+   * @returns Animation frame index
+   */
+  private getFrame(): number {
+    if (!this.state.isRunning) {
+      return this.state.frameIndex
+    }
+    const now = this.state.isPaused ? this.state.pausedAt : Date.now()
+    const frames = Math.floor((now - this.state.frameTime) / this.getFrameInterval())
+    return this.state.frameIndex + frames
+  }
+
+  /**
+   * Calculates the effective time between two redraws from the interval and speed
+   *
+   * @returns Redraw interval in milliseconds
+   */
+  private getFrameInterval(): number {
+    return this.state.options.interval / this.state.speed
+  }
+
+  /**
+   * Stops the redraw loop, clears the animated line and restores the cursor
+   *
+   * In line-based mode nothing is cleared since no animated frame was written.
+   */
+  private stopAnimation(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.state.options.stream.off('resize', this.handleResize)
+    if (this.state.options.interactive) {
+      this.write(`\r\x1b[K${this.state.options.hideCursor ? SHOW_CURSOR : ''}`)
+    }
+    unregisterActiveComponent(this.activeComponent)
+  }
+
+  /**
+   * Prints the current progress bar as a standalone line for non-interactive streams
+   */
+  private renderMilestone(): void {
+    if (!this.state.options.show) {
+      return
+    }
+    this.write(`${this.format()}\n`)
+  }
+
+  /**
+   * Calculates the last 10% milestone reached by the current progress
+   *
+   * @returns Milestone in tens of percent (0-10), always 0 while indeterminate
+   */
+  private getMilestone(): number {
+    if (this.state.total === null) {
+      return 0
+    }
+    return Math.floor((this.state.current / this.state.total) * 10)
+  }
+
+  /**
+   * Calculates the time since start() in milliseconds
+   *
+   * Paused time is excluded unless includePausedTime is set.
+   *
+   * @returns Elapsed time, or 0 when the progress bar is not running
+   */
+  private getElapsed(): number {
+    if (!this.state.isRunning) {
+      return 0
+    }
+    const now = Date.now()
+    const elapsed = now - this.state.startTime
+    if (this.state.options.includePausedTime) {
+      return elapsed
+    }
+    const currentPause = this.state.isPaused ? now - this.state.pausedAt : 0
+    return elapsed - this.state.pausedTime - currentPause
+  }
+
+  /**
+   * Estimates the remaining time from the smoothed rate
+   *
+   * @param rate - Smoothed progress rate in units per second
+   * @returns Remaining time in milliseconds, or NaN when unknown
+   */
+  private getEta(rate: number): number {
+    if (this.state.total === null) {
+      return NaN
+    }
+    const remaining = this.state.total - this.state.current
+    if (remaining <= 0) {
+      return 0
+    }
+    return rate > 0 ? (remaining / rate) * 1000 : NaN
+  }
+
+  /**
+   * Adds a delta to a stacked segment and recalculates the current value
+   *
+   * @param name - Name of the segment to adjust
+   * @param delta - Amount to add (segment values never drop below 0)
+   */
+  private adjustSegment(name: string, delta: number): void {
+    const { segmentValues } = this.state
+    segmentValues[name] = Math.max(0, segmentValues[name] + delta)
+    this.state.current = Object.values(segmentValues).reduce((sum, value) => sum + value, 0)
+  }
+
+  /**
+   * Reduces stacked segments in the given order until their sum fits the target
+   *
+   * @param target - Upper bound for the sum of all segments
+   * @param names - Segment names in the order they are reduced
+   */
+  private reduceSegments(target: number, names: string[]): void {
+    const { segmentValues } = this.state
+    names.reduce((excess, name) => {
+      const reduction = Math.min(Math.max(0, excess), segmentValues[name])
+      segmentValues[name] -= reduction
+      return excess - reduction
+    }, this.state.current - target)
+    this.state.current = Object.values(segmentValues).reduce((sum, value) => sum + value, 0)
+  }
+
+  /**
+   * Records a rate sample and updates the smoothed rate estimate
+   *
+   * Samples closer together than RATE_SAMPLE_INTERVAL are merged into the next
+   * one to avoid spikes from bursts of updates. The rate is smoothed with an
+   * exponential moving average.
+   */
+  private sampleRate(): void {
+    const now = Date.now()
+    const elapsed = (now - this.state.lastSampleTime) / 1000
+    if (elapsed < this.RATE_SAMPLE_INTERVAL) {
+      return
+    }
+    const instantRate = (this.state.current - this.state.lastSampleValue) / elapsed
+    this.state.rate =
+      this.state.rate === null
+        ? instantRate
+        : this.state.rate + this.RATE_SMOOTHING * (instantRate - this.state.rate)
+    this.state.lastSampleTime = now
+    this.state.lastSampleValue = this.state.current
+  }
+
+  /**
+   * Resolves the bar width from the width option
+   *
+   * In 'auto' mode the bar fills the stream's columns minus the visible width of
+   * the rest of the line, keeping one spare column so the line never wraps.
+   *
+   * @param lineWithoutBar - Rendered line with an empty bar token
+   * @returns Bar width in cells (at least 1)
+   */
+  private resolveWidth(lineWithoutBar: string): number {
+    const { width, stream } = this.state.options
+    if (width !== 'auto') {
+      return width
+    }
+    if (!stream.columns) {
+      return this.FALLBACK_WIDTH
+    }
+    return Math.max(1, stream.columns - visibleWidth(lineWithoutBar) - 1)
+  }
+
+  /**
+   * Renders the visual bar for the configured style
+   *
+   * @param percentage - Current progress percentage (0-100)
+   * @param width - Bar width in cells
+   * @returns Visual representation of progress for the configured style
+   */
+  private renderVisualBar(percentage: number, width: number): string {
+    switch (this.state.options.style) {
       case 'blocks':
-        visualBar = this.renderBlocksStyle(percentage)
-        break
+        return this.renderBlocksStyle(percentage, width)
       case 'dots':
-        visualBar = this.renderDotsStyle(percentage)
-        break
+        return this.renderDotsStyle(percentage, width)
+      case 'smooth':
+        return this.renderSmoothStyle(percentage, width)
+      case 'ascii':
+        return this.renderAsciiStyle(percentage, width)
       default:
-        visualBar = this.renderBarStyle(percentage)
+        return this.renderBarStyle(percentage, width)
     }
-    const color = this.state.options.color ? getColorCode(this.state.options.color) : ''
-    const backgroundColor = this.state.options.backgroundColor
-      ? getBackgroundColorCode(this.state.options.backgroundColor)
-      : ''
-    const styles = getStyleCode({
-      bold: this.state.options.bold,
-      italic: this.state.options.italic,
-      underline: this.state.options.underline
-    })
-    const text = this.state.text ? ` ${this.state.text}` : ''
-    const percentageText = ` ${percentage.toFixed(1)}%`
-    process.stdout.write(
-      `\r\x1b[K${styles}${backgroundColor}${color}${visualBar}${percentageText}${text}\x1b[0m`
-    )
   }
 
   /**
    * Renders a solid bar style progress bar using filled and empty blocks
    *
    * @param percentage - Current progress percentage (0-100)
+   * @param width - Bar width in cells
    * @returns Visual representation of progress using █ and ░ characters
    */
-  private renderBarStyle(percentage: number): string {
-    const width = 20
+  private renderBarStyle(percentage: number, width: number): string {
     const filled = Math.round((percentage / 100) * width)
     return '█'.repeat(filled) + '░'.repeat(width - filled)
   }
@@ -280,10 +986,10 @@ export class Progress {
    * Renders a blocks style progress bar using filled and empty squares
    *
    * @param percentage - Current progress percentage (0-100)
+   * @param width - Bar width in cells
    * @returns Visual representation of progress using ▣ and ▢ characters
    */
-  private renderBlocksStyle(percentage: number): string {
-    const width = 20
+  private renderBlocksStyle(percentage: number, width: number): string {
     const filled = Math.round((percentage / 100) * width)
     return '▣'.repeat(filled) + '▢'.repeat(width - filled)
   }
@@ -292,11 +998,148 @@ export class Progress {
    * Renders a dots style progress bar using filled and empty circles
    *
    * @param percentage - Current progress percentage (0-100)
+   * @param width - Bar width in cells
    * @returns Visual representation of progress using ● and ○ characters
    */
-  private renderDotsStyle(percentage: number): string {
-    const width = 20
+  private renderDotsStyle(percentage: number, width: number): string {
     const filled = Math.round((percentage / 100) * width)
     return '●'.repeat(filled) + '○'.repeat(width - filled)
   }
+
+  /**
+   * Renders an indeterminate bar with a segment bouncing between both ends
+   *
+   * The segment advances one cell per animation frame using the filled and
+   * empty characters of the configured style.
+   *
+   * @param width - Bar width in cells
+   * @returns Visual representation of activity without a known total
+   */
+  private renderIndeterminate(width: number): string {
+    const { style } = this.state.options
+    const inner = style === 'ascii' ? Math.max(1, width - 2) : width
+    const [filled, empty] = this.STYLE_CHARS[style]
+    const segment = Math.max(1, Math.round(inner / 4))
+    const travel = inner - segment
+    const step = travel > 0 ? this.getFrame() % (travel * 2) : 0
+    const position = step > travel ? travel * 2 - step : step
+    const bar =
+      empty.repeat(position) + filled.repeat(segment) + empty.repeat(inner - segment - position)
+    return style === 'ascii' ? `[${bar}]` : bar
+  }
+
+  /**
+   * Renders a stacked bar with one colored run of cells per segment
+   *
+   * Segment boundaries are rounded from cumulative values so the cells always
+   * add up to the filled portion of the bar.
+   *
+   * @param width - Bar width in cells
+   * @param baseColor - Bar color code restored after each segment
+   * @param level - Color level to emit
+   * @returns Visual representation of all segments using the style's cell characters
+   */
+  private renderStacked(width: number, baseColor: string, level: ColorLevel): string {
+    const { style, segments } = this.state.options
+    const total = this.state.total ?? 1
+    const inner = style === 'ascii' ? Math.max(1, width - 2) : width
+    const [filled, empty] = this.STYLE_CHARS[style]
+    let cumulative = 0
+    let usedCells = 0
+    const parts = segments.map(segment => {
+      cumulative += this.state.segmentValues[segment.name]
+      const boundary = Math.round((Math.min(cumulative, total) / total) * inner)
+      const cells = boundary - usedCells
+      usedCells = boundary
+      if (cells <= 0) {
+        return ''
+      }
+      const segmentColor = segment.color ? getColorCode(segment.color, level) : baseColor
+      return `${segmentColor}${filled.repeat(cells)}${baseColor}`
+    })
+    const bar = parts.join('') + empty.repeat(inner - usedCells)
+    return style === 'ascii' ? `[${bar}]` : bar
+  }
+
+  /**
+   * Renders a smooth style progress bar with sub-character precision
+   *
+   * Splits each cell into eighths so progress advances in 1/8 cell steps
+   * instead of jumping a whole cell at a time.
+   *
+   * @param percentage - Current progress percentage (0-100)
+   * @param width - Bar width in cells
+   * @returns Visual representation of progress using █, eighth blocks (▏▎▍▌▋▊▉) and spaces
+   */
+  private renderSmoothStyle(percentage: number, width: number): string {
+    const eighths = Math.round((percentage / 100) * width * 8)
+    const full = Math.floor(eighths / 8)
+    const partial = this.PARTIAL_BLOCKS[eighths % 8]
+    const empty = width - full - (partial ? 1 : 0)
+    return '█'.repeat(full) + partial + ' '.repeat(empty)
+  }
+
+  /**
+   * Renders an ASCII style progress bar for terminals without Unicode support
+   *
+   * The brackets are included in the width so the bar never exceeds it. Filled cells
+   * are rounded down so the bar only appears full at 100%.
+   *
+   * @param percentage - Current progress percentage (0-100)
+   * @param width - Bar width in cells including brackets
+   * @returns Visual representation of progress using [, =, >, spaces and ]
+   */
+  private renderAsciiStyle(percentage: number, width: number): string {
+    const inner = Math.max(1, width - 2)
+    const filled = Math.floor((percentage / 100) * inner)
+    if (filled >= inner) {
+      return `[${'='.repeat(inner)}]`
+    }
+    const head = filled > 0 ? `${'='.repeat(filled - 1)}>` : ''
+    return `[${head}${' '.repeat(inner - filled)}]`
+  }
+
+  /**
+   * Stops the progress bar and prints a completion line for the given status
+   *
+   * @param status - Final state determining the symbol and its color
+   * @param text - Optional message text (uses current progress text if not provided)
+   */
+  private async stopWithStatus(status: CompletionStatus, text?: string): Promise<void> {
+    await this.stop()
+    this.write(`${this.formatStatus(status, text)}\n`)
+  }
+
+  /**
+   * Stops the progress bar synchronously when the process exits or is interrupted
+   *
+   * @param fail - True to print a fail line with the progress bar text, or a custom fail text
+   */
+  private abort(fail: boolean | string): void {
+    void this.stop()
+    if (!fail) {
+      return
+    }
+    this.write(`${this.formatStatus('fail', fail === true ? undefined : fail)}\n`)
+  }
+
+  /**
+   * Links text to the configured URL
+   *
+   * @param text - Text to link
+   * @param showUrl - Appends the URL when the terminal does not support hyperlinks
+   * @returns Hyperlinked text, or the text unchanged when no link is configured
+   */
+  private linkText(text: string, showUrl = true): string {
+    return formatHyperlink(text, this.state.options.link, this.state.options.stream, showUrl)
+  }
+
+  /**
+   * Writes a chunk of output to the configured stream
+   *
+   * @param chunk - Raw terminal output including ANSI escape sequences
+   */
+  private write(chunk: string): void {
+    writeOutput(this.state.options.stream, chunk)
+  }
 }
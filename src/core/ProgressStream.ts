@@ -0,0 +1,69 @@
+import { Transform } from 'node:stream'
+import type { Readable, TransformCallback } from 'node:stream'
+import { Progress } from '@core/Progress'
+import type { ProgressOptions } from '@interfaces/Progress'
+
+/**
+ * ProgressStream - Transform stream advancing a progress bar by bytes passed through
+ *
+ * Passes data through unchanged while incrementing a Progress instance by the size
+ * of each chunk. The bar starts with the first chunk, completes when the stream ends,
+ * and fails when the stream or a source piped into it errors.
+ */
+export class ProgressStream extends Transform {
+  /** Progress bar advanced by the bytes passing through the stream */
+  readonly progress: Progress
+
+  /**
+   * Creates a new progress stream with the specified progress bar configuration
+   *
+   * @param options - Progress options where total is the expected number of bytes
+   * @throws Error if options are invalid
+   */
+  constructor(options: ProgressOptions = {}) {
+    super()
+    this.progress = new Progress(options)
+    this.on('pipe', (source: Readable) => {
+      source.once('error', error => this.destroy(error))
+    })
+  }
+
+  /**
+   * Advances the progress bar by the chunk size and passes the chunk through
+   *
+   * @param chunk - Data chunk written to the stream
+   * @param _encoding - Encoding of the chunk (unused, chunks are buffers)
+   * @param callback - Callback receiving the unchanged chunk
+   */
+  override _transform(chunk: Buffer, _encoding: string, callback: TransformCallback): void {
+    void this.progress.start()
+    this.progress.increment(chunk.length)
+    callback(null, chunk)
+  }
+
+  /**
+   * Completes the progress bar once all data has passed through
+   *
+   * @param callback - Callback signaling the end of the stream
+   */
+  override _flush(callback: TransformCallback): void {
+    void this.progress.start()
+    this.progress.complete().then(() => callback(), callback)
+  }
+
+  /**
+   * Fails the progress bar when the stream is destroyed with an error
+   *
+   * Destroying without an error stops the bar and clears its line.
+   *
+   * @param error - Error that caused the destruction, or null
+   * @param callback - Callback finishing the destruction
+   */
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    const finish = error ? this.progress.fail() : this.progress.stop()
+    finish.then(
+      () => callback(error),
+      () => callback(error)
+    )
+  }
+}
@@ -1,5 +1,35 @@
-import { getColorCode, getBackgroundColorCode, getStyleCode } from '@utils/Colors'
-import type { SpinnerOptions, SpinnerState, SpinnerOptionsInternal } from '@interfaces/Spinner'
+import {
+  getColorCode,
+  getBackgroundColorCode,
+  getStyleCode,
+  getUnderlineColorCode,
+  getResetCode,
+  getColorLevel,
+  validateColors,
+  resolveTextColor
+} from '@utils/Colors'
+import { HIDE_CURSOR, SHOW_CURSOR, formatHyperlink, isInteractiveStream } from '@utils/Terminal'
+import {
+  DEFAULT_SPINNER_INTERVAL,
+  DEFAULT_SPINNER_STYLE,
+  getSpinnerStyle,
+  isSpinnerStyleDefinition
+} from '@utils/Spinners'
+import { registerActiveComponent, unregisterActiveComponent, writeOutput } from '@utils/Output'
+import { formatStatusLine, formatSymbolLine } from '@utils/Symbols'
+import { formatDuration } from '@utils/Format'
+import type {
+  SpinnerOptions,
+  SpinnerState,
+  SpinnerOptionsInternal,
+  SpinnerPromiseOptions,
+  SpinnerWork,
+  CompletionStatus,
+  SpinnerStyleDefinition
+} from '@interfaces/Spinner'
+import type { ColorLevel } from '@interfaces/Colors'
+import type { ActiveComponent } from '@interfaces/Output'
+import type { PersistOptions } from '@interfaces/Symbols'
 
 /**
  * Spinner - Terminal loading animation component with customizable appearance
@@ -13,14 +43,15 @@ export class Spinner {
   private state: SpinnerState
   /** Timer reference for animation loop */
   private intervalId: ReturnType<typeof setInterval> | null = null
-  /** Predefined spinner patterns for different animation styles */
-  private readonly SPINNER_PATTERNS: Record<string, readonly string[]> = {
-    dots: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'],
-    corners: ['│', '┤', '┘', '└', '┐', '┌', '┴', '┬'],
-    arrows: ['←', '↖', '↑', '↗', '→', '↘', '↓', '↙'],
-    triangles: ['◢', '◣', '◤', '◥'],
-    circles: ['◐', '◑', '◒', '◓'],
-    stars: ['★', '☆', '✯', '✰']
+  /** Clear and redraw callbacks registered while the spinner is animating */
+  private readonly activeComponent: ActiveComponent = {
+    clear: () => {
+      if (this.state.options.interactive) {
+        this.write('\r\x1b[K')
+      }
+    },
+    redraw: () => this.render(),
+    abort: fail => this.abort(fail)
   }
   /** Default configuration options with fallback values */
   private readonly defaultOptions: SpinnerOptionsInternal = {
@@ -29,20 +60,51 @@ export class Spinner {
     color: 'cyan',
     backgroundColor: '',
     show: true,
-    spinner: this.SPINNER_PATTERNS.dots as string[],
+    spinner: DEFAULT_SPINNER_STYLE.frames,
+    interval: DEFAULT_SPINNER_INTERVAL,
     bold: false,
     italic: false,
-    underline: false
+    underline: false,
+    dim: false,
+    inverse: false,
+    strikethrough: false,
+    hidden: false,
+    overline: false,
+    doubleUnderline: false,
+    curlyUnderline: false,
+    blink: false,
+    underlineColor: '',
+    link: '',
+    stream: process.stdout,
+    interactive: true,
+    hideCursor: true,
+    symbols: {},
+    showElapsed: false,
+    showDuration: false,
+    includePausedTime: false
   }
 
   /**
-   * Gets the spinner pattern for the specified style
+   * Resolves the animation frames and interval from the spinner or style option
    *
-   * @param style - The spinner animation style
-   * @returns Array of characters for the spinner animation
+   * A custom spinner takes precedence over the style. Invalid custom spinners, such
+   * as empty frames or a non-positive interval, are ignored with a warning. Unknown
+   * style names fall back to the default 'dots' style.
+   *
+   * @param options - Spinner options to resolve the animation from
+   * @returns Style definition with frames and optional interval
    */
-  private getSpinnerPattern(style: string): string[] {
-    return (this.SPINNER_PATTERNS[style] as string[]) || this.SPINNER_PATTERNS.dots
+  private resolveSpinnerStyle(options: SpinnerOptions): SpinnerStyleDefinition {
+    if (options.spinner) {
+      const definition = Array.isArray(options.spinner)
+        ? { frames: options.spinner }
+        : options.spinner
+      if (isSpinnerStyleDefinition(definition)) {
+        return definition
+      }
+      console.warn('Spinner: Invalid spinner definition provided, using the style option instead')
+    }
+    return getSpinnerStyle(options.style ?? this.defaultOptions.style) ?? DEFAULT_SPINNER_STYLE
   }
 
   /**
@@ -52,24 +114,68 @@ export class Spinner {
    * All optional properties use sensible defaults when not specified.
    *
    * @param options - Configuration options for spinner appearance and behavior
+   * @throws Error if the interval is not a positive finite number
+   * @throws Error if a color is invalid and strict color mode is enabled
    */
   constructor(options: SpinnerOptions = {}) {
+    const stream = options.stream ?? this.defaultOptions.stream
+    const spinnerStyle = this.resolveSpinnerStyle(options)
+    if (
+      options.interval !== undefined &&
+      (!Number.isFinite(options.interval) || options.interval <= 0)
+    ) {
+      throw new Error('Spinner interval must be a positive finite number')
+    }
+    validateColors('Spinner', {
+      color: options.color,
+      backgroundColor: options.backgroundColor,
+      underlineColor: options.underlineColor
+    })
     const mergedOptions: SpinnerOptionsInternal = {
       text: options.text ?? this.defaultOptions.text,
       style: options.style ?? this.defaultOptions.style,
-      color: options.color ?? this.defaultOptions.color,
+      color: resolveTextColor(
+        options.color,
+        options.backgroundColor ?? this.defaultOptions.backgroundColor,
+        this.defaultOptions.color
+      ),
       backgroundColor: options.backgroundColor ?? this.defaultOptions.backgroundColor,
       show: options.show ?? this.defaultOptions.show,
-      spinner: options.spinner ?? this.getSpinnerPattern(options.style ?? 'dots'),
+      spinner: spinnerStyle.frames,
+      interval: options.interval ?? spinnerStyle.interval ?? this.defaultOptions.interval,
       bold: options.bold ?? this.defaultOptions.bold,
       italic: options.italic ?? this.defaultOptions.italic,
-      underline: options.underline ?? this.defaultOptions.underline
+      underline: options.underline ?? this.defaultOptions.underline,
+      dim: options.dim ?? this.defaultOptions.dim,
+      inverse: options.inverse ?? this.defaultOptions.inverse,
+      strikethrough: options.strikethrough ?? this.defaultOptions.strikethrough,
+      hidden: options.hidden ?? this.defaultOptions.hidden,
+      overline: options.overline ?? this.defaultOptions.overline,
+      doubleUnderline: options.doubleUnderline ?? this.defaultOptions.doubleUnderline,
+      curlyUnderline: options.curlyUnderline ?? this.defaultOptions.curlyUnderline,
+      blink: options.blink ?? this.defaultOptions.blink,
+      underlineColor: options.underlineColor ?? this.defaultOptions.underlineColor,
+      link: options.link ?? this.defaultOptions.link,
+      stream,
+      interactive: options.interactive ?? isInteractiveStream(stream),
+      hideCursor: options.hideCursor ?? this.defaultOptions.hideCursor,
+      symbols: options.symbols ?? this.defaultOptions.symbols,
+      showElapsed: options.showElapsed ?? this.defaultOptions.showElapsed,
+      showDuration: options.showDuration ?? this.defaultOptions.showDuration,
+      includePausedTime: options.includePausedTime ?? this.defaultOptions.includePausedTime
     }
     this.state = {
       text: mergedOptions.text,
       isRunning: false,
+      isPaused: false,
+      isManaged: false,
+      pausedAt: 0,
+      pausedTime: 0,
+      speed: 1,
       frameIndex: 0,
+      frameTime: 0,
       startTime: 0,
+      stopTime: 0,
       options: mergedOptions
     }
   }
@@ -79,6 +185,7 @@ export class Spinner {
    *
    * Begins the animation loop and displays the spinner on the terminal.
    * If text is provided, it updates the current spinner text before starting.
+   * In line-based mode the text is printed once and no animation loop is started.
    *
    * @param text - Optional text to display with the spinner (overrides existing text if provided)
    */
@@ -89,11 +196,135 @@ export class Spinner {
     if (text) {
       this.state.text = text
     }
-    this.state.isRunning = true
-    this.state.startTime = Date.now()
-    this.state.frameIndex = 0
-    this.render()
-    this.intervalId = setInterval(() => this.render(), 80)
+    this.beginRun(false)
+    if (!this.state.options.interactive) {
+      this.renderStatic()
+    }
+    this.startAnimation()
+  }
+
+  /**
+   * Starts the spinner without writing any output
+   *
+   * Used by containers that draw several spinners at once with format(), so the
+   * animation frames and elapsed time advance while the container redraws.
+   */
+  startManaged(): void {
+    if (this.state.isRunning) {
+      return
+    }
+    this.beginRun(true)
+  }
+
+  /**
+   * Pauses the spinner without ending the task
+   *
+   * Clears the animated line and suspends the animation loop, e.g. to show a prompt
+   * or the output of a child process. Text updates made while paused are shown once
+   * the spinner is resumed.
+   */
+  pause(): void {
+    if (!this.state.isRunning || this.state.isPaused) {
+      return
+    }
+    this.state.isPaused = true
+    this.state.pausedAt = Date.now()
+    this.stopAnimation()
+  }
+
+  /**
+   * Resumes a paused spinner, keeping its start time and animation position
+   *
+   * The time spent paused is excluded from the elapsed time unless
+   * includePausedTime is set.
+   */
+  resume(): void {
+    if (!this.state.isRunning || !this.state.isPaused) {
+      return
+    }
+    this.endPause()
+    this.startAnimation()
+  }
+
+  /**
+   * Changes the animation speed at runtime
+   *
+   * The speed multiplies the animation rate: 2 spins twice as fast, 0.5 at half
+   * speed, and 1 restores the configured interval.
+   *
+   * @param speed - Positive speed multiplier
+   */
+  setSpeed(speed: number): void {
+    if (!Number.isFinite(speed) || speed <= 0) {
+      console.warn('Spinner setSpeed: Invalid speed provided, ignoring update')
+      return
+    }
+    if (this.state.isRunning) {
+      this.state.frameIndex = this.getFrame()
+      this.state.frameTime = this.state.isPaused ? this.state.pausedAt : Date.now()
+    }
+    this.state.speed = speed
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = setInterval(() => this.render(), this.getFrameInterval())
+    }
+  }
+
+  /**
+   * Effective time between two frames in milliseconds, taking the speed into account
+   */
+  get frameInterval(): number {
+    return this.getFrameInterval()
+  }
+
+  /**
+   * Whether the spinner is currently paused
+   */
+  get isPaused(): boolean {
+    return this.state.isPaused
+  }
+
+  /**
+   * Time the spinner has been running in milliseconds
+   *
+   * Frozen at the total duration once the spinner stops. Paused time is excluded
+   * unless includePausedTime is set.
+   */
+  get elapsed(): number {
+    if (!this.state.startTime) {
+      return 0
+    }
+    const end = this.state.stopTime || Date.now()
+    const elapsed = end - this.state.startTime
+    if (this.state.options.includePausedTime) {
+      return elapsed
+    }
+    const currentPause = this.state.isPaused ? end - this.state.pausedAt : 0
+    return elapsed - this.state.pausedTime - currentPause
+  }
+
+  /**
+   * Runs the spinner while a promise or async function is pending
+   *
+   * Starts the spinner, waits for the work, and calls succeed() or fail() automatically.
+   * The original error is re-thrown after the failure message is displayed.
+   *
+   * @param work - Promise to wait for, or function returning a value or promise
+   * @param options - Success and failure messages (strings or functions of the result/error)
+   * @returns The value the work resolved to
+   */
+  async promise<T>(work: SpinnerWork<T>, options: SpinnerPromiseOptions<T> = {}): Promise<T> {
+    await this.start()
+    try {
+      const result = await (typeof work === 'function' ? work() : work)
+      const { successText } = options
+      await this.succeed(typeof successText === 'function' ? successText(result) : successText)
+      return result
+    } catch (error) {
+      const { failText } = options
+      await this.fail(typeof failText === 'function' ? failText(error) : failText)
+      throw error
+    }
   }
 
   /**
@@ -102,10 +333,7 @@ export class Spinner {
    * @param text - Optional success message text (uses current spinner text if not provided)
    */
   async succeed(text?: string): Promise<void> {
-    await this.stop()
-    const message = text || this.state.text
-    const successColor = getColorCode('green')
-    process.stdout.write(`${successColor}✔\x1b[0m ${message}\n`)
+    await this.stopWithStatus('succeed', text)
   }
 
   /**
@@ -114,10 +342,7 @@ export class Spinner {
    * @param text - Optional error message text (uses current spinner text if not provided)
    */
   async fail(text?: string): Promise<void> {
-    await this.stop()
-    const message = text || this.state.text
-    const errorColor = getColorCode('red')
-    process.stdout.write(`${errorColor}✖\x1b[0m ${message}\n`)
+    await this.stopWithStatus('fail', text)
   }
 
   /**
@@ -126,10 +351,7 @@ export class Spinner {
    * @param text - Optional warning message text (uses current spinner text if not provided)
    */
   async warn(text?: string): Promise<void> {
-    await this.stop()
-    const message = text || this.state.text
-    const warningColor = getColorCode('yellow')
-    process.stdout.write(`${warningColor}⚠\x1b[0m ${message}\n`)
+    await this.stopWithStatus('warn', text)
   }
 
   /**
@@ -138,10 +360,19 @@ export class Spinner {
    * @param text - Optional info message text (uses current spinner text if not provided)
    */
   async info(text?: string): Promise<void> {
+    await this.stopWithStatus('info', text)
+  }
+
+  /**
+   * Stops the spinner and persists an arbitrary final line
+   *
+   * @param options - Glyph, text and glyph color of the final line (no glyph when omitted)
+   */
+  async stopAndPersist(options: PersistOptions = {}): Promise<void> {
     await this.stop()
-    const message = text || this.state.text
-    const infoColor = getColorCode('blue')
-    process.stdout.write(`${infoColor}ℹ\x1b[0m ${message}\n`)
+    const level = getColorLevel(this.state.options.stream)
+    const message = this.linkText(options.text || this.state.text)
+    this.write(`${formatSymbolLine(options.symbol ?? '', message, options.color, level)}\n`)
   }
 
   /**
@@ -152,11 +383,29 @@ export class Spinner {
       return
     }
     this.state.isRunning = false
-    if (this.intervalId) {
-      clearInterval(this.intervalId)
-      this.intervalId = null
+    this.state.stopTime = Date.now()
+    if (this.state.isPaused) {
+      this.endPause()
+      return
     }
-    process.stdout.write('\r\x1b[K')
+    this.stopAnimation()
+  }
+
+  /**
+   * Prints a message above the spinner without breaking its animation
+   *
+   * Clears the animated line, prints the message on its own line and redraws the
+   * spinner below it. When the spinner is not animating the message is printed as is.
+   *
+   * @param message - Message to print
+   */
+  log(message: string): void {
+    if (!this.state.isRunning || this.state.isPaused || !this.state.options.interactive) {
+      this.write(`${message}\n`)
+      return
+    }
+    this.write(`\r\x1b[K${message}\n`)
+    this.render()
   }
 
   /**
@@ -172,32 +421,230 @@ export class Spinner {
   }
 
   /**
-   * Renders the current spinner frame with applied colors and text
+   * Builds the spinner line for an animation frame with applied colors and text
+   *
+   * Applies color codes, background colors, and text styling as configured.
+   * Used internally for rendering and by containers that draw several spinners at once.
+   *
+   * @param frameIndex - Position in the animation sequence (defaults to the current frame)
+   * @returns Styled spinner line without cursor control sequences
+   */
+  format(frameIndex: number = this.getFrame()): string {
+    const { spinner } = this.state.options
+    if (!spinner || spinner.length === 0) {
+      return ''
+    }
+    const frame = spinner[frameIndex % spinner.length]
+    const level = getColorLevel(this.state.options.stream)
+    const color = this.state.options.color ? getColorCode(this.state.options.color, level) : ''
+    const backgroundColor = this.state.options.backgroundColor
+      ? getBackgroundColorCode(this.state.options.backgroundColor, level)
+      : ''
+    const styles = getStyleCode(this.state.options, level)
+    const underlineColor = this.state.options.underlineColor
+      ? getUnderlineColorCode(this.state.options.underlineColor, level)
+      : ''
+    const elapsed =
+      this.state.options.showElapsed && this.state.isRunning
+        ? ` (${formatDuration(this.elapsed)})`
+        : ''
+    const text = `${this.state.text ? ` ${this.linkText(this.state.text, false)}` : ''}${elapsed}`
+    return `${styles}${underlineColor}${backgroundColor}${color}${frame}${text}${getResetCode(level)}`
+  }
+
+  /**
+   * Builds a completion line using the symbols configured for this spinner
+   *
+   * Used internally for completion messages and by containers that draw several
+   * spinners at once.
+   *
+   * @param status - Final state determining the symbol and its color
+   * @param text - Optional message text (uses current spinner text if not provided)
+   * @param level - Color level to emit (defaults to the level of the output stream)
+   * @returns Styled completion line without trailing newline
+   */
+  formatStatus(
+    status: CompletionStatus,
+    text?: string,
+    level: ColorLevel = getColorLevel(this.state.options.stream)
+  ): string {
+    const message = this.linkText(text || this.state.text)
+    return formatStatusLine(status, message, level, this.state.options.symbols)
+  }
+
+  /**
+   * Renders the current spinner frame to the terminal
    *
-   * Updates the terminal output with the current animation frame, applying
-   * color codes, background colors, and text styling as configured.
-   * Advances to the next frame in the animation sequence.
+   * Updates the terminal output in place with the current animation frame.
    */
   private render(): void {
-    if (!this.state.isRunning || !this.state.options.show) {
+    if (!this.state.isRunning || this.state.isPaused || this.state.isManaged) {
+      return
+    }
+    if (!this.state.options.show || !this.state.options.interactive) {
       return
     }
     if (!this.state.options.spinner || this.state.options.spinner.length === 0) {
       return
     }
-    const frame =
-      this.state.options.spinner[this.state.frameIndex % this.state.options.spinner.length]
-    const color = this.state.options.color ? getColorCode(this.state.options.color) : ''
-    const backgroundColor = this.state.options.backgroundColor
-      ? getBackgroundColorCode(this.state.options.backgroundColor)
-      : ''
-    const styles = getStyleCode({
-      bold: this.state.options.bold,
-      italic: this.state.options.italic,
-      underline: this.state.options.underline
-    })
-    const text = this.state.text ? ` ${this.state.text}` : ''
-    process.stdout.write(`\r\x1b[K${styles}${backgroundColor}${color}${frame}${text}\x1b[0m`)
-    this.state.frameIndex++
+    this.write(`\r\x1b[K${this.format()}`)
+  }
+
+  /**
+   * Starts the animation loop, hides the cursor and registers the spinner as active
+   *
+   * In line-based mode the spinner is only registered, so it is still stopped on exit.
+   */
+  private startAnimation(): void {
+    registerActiveComponent(this.activeComponent)
+    if (!this.state.options.interactive) {
+      return
+    }
+    if (this.state.options.hideCursor) {
+      this.write(HIDE_CURSOR)
+    }
+    this.render()
+    this.intervalId = setInterval(() => this.render(), this.getFrameInterval())
+  }
+
+  /**
+   * Marks the spinner as running and resets its timing and animation state
+   *
+   * @param managed - Whether a container draws the spinner
+   */
+  private beginRun(managed: boolean): void {
+    this.state.isRunning = true
+    this.state.isPaused = false
+    this.state.isManaged = managed
+    this.state.startTime = Date.now()
+    this.state.stopTime = 0
+    this.state.pausedAt = 0
+    this.state.pausedTime = 0
+    this.state.frameIndex = 0
+    this.state.frameTime = this.state.startTime
+  }
+
+  /**
+   * Calculates the current position in the animation sequence
+   *
+   * Frames advance with time at the frame interval, so the animation keeps its
+   * own pace however often the spinner is redrawn. Paused time is skipped.
+   *
+   * @returns Animation frame index
+   */
+  private getFrame(): number {
+    if (!this.state.isRunning) {
+      return this.state.frameIndex
+    }
+    const now = this.state.isPaused ? this.state.pausedAt : Date.now()
+    const frames = Math.floor((now - this.state.frameTime) / this.getFrameInterval())
+    return this.state.frameIndex + frames
+  }
+
+  /**
+   * Calculates the effective time between two frames from the interval and speed
+   *
+   * @returns Frame interval in milliseconds
+   */
+  private getFrameInterval(): number {
+    return this.state.options.interval / this.state.speed
+  }
+
+  /**
+   * Stops the animation loop, clears the animated line and restores the cursor
+   *
+   * In line-based mode nothing is cleared since no animated frame was written.
+   */
+  private stopAnimation(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    if (this.state.options.interactive) {
+      this.write(`\r\x1b[K${this.state.options.hideCursor ? SHOW_CURSOR : ''}`)
+    }
+    unregisterActiveComponent(this.activeComponent)
+  }
+
+  /**
+   * Prints the spinner text once as a plain line for non-interactive streams
+   *
+   * Used in line-based mode where animation frames would flood logs.
+   */
+  private renderStatic(): void {
+    if (!this.state.options.show || !this.state.text) {
+      return
+    }
+    this.write(`- ${this.state.text}\n`)
+  }
+
+  /**
+   * Stops the spinner and prints a completion line for the given status
+   *
+   * @param status - Final state determining the symbol and its color
+   * @param text - Optional message text (uses current spinner text if not provided)
+   */
+  private async stopWithStatus(status: CompletionStatus, text?: string): Promise<void> {
+    await this.stop()
+    this.write(`${this.formatStatus(status, this.withDuration(text))}\n`)
+  }
+
+  /**
+   * Appends the total duration to a completion message when showDuration is set
+   *
+   * @param text - Optional message text (uses current spinner text if not provided)
+   * @returns Message with the duration appended, or the message unchanged
+   */
+  private withDuration(text?: string): string | undefined {
+    if (!this.state.options.showDuration) {
+      return text
+    }
+    return `${text || this.state.text} (${formatDuration(this.elapsed)})`
+  }
+
+  /**
+   * Ends the current pause and adds its length to the total paused time
+   */
+  private endPause(): void {
+    const pause = Date.now() - this.state.pausedAt
+    this.state.isPaused = false
+    this.state.pausedTime += pause
+    this.state.frameTime += pause
+    this.state.pausedAt = 0
+  }
+
+  /**
+   * Stops the spinner synchronously when the process exits or is interrupted
+   *
+   * @param fail - True to print a fail line with the spinner text, or a custom fail text
+   */
+  private abort(fail: boolean | string): void {
+    void this.stop()
+    if (!fail) {
+      return
+    }
+    this.write(
+      `${this.formatStatus('fail', this.withDuration(fail === true ? undefined : fail))}\n`
+    )
+  }
+
+  /**
+   * Links text to the configured URL
+   *
+   * @param text - Text to link
+   * @param showUrl - Appends the URL when the terminal does not support hyperlinks
+   * @returns Hyperlinked text, or the text unchanged when no link is configured
+   */
+  private linkText(text: string, showUrl = true): string {
+    return formatHyperlink(text, this.state.options.link, this.state.options.stream, showUrl)
+  }
+
+  /**
+   * Writes a chunk of output to the configured stream
+   *
+   * @param chunk - Raw terminal output including ANSI escape sequences
+   */
+  private write(chunk: string): void {
+    writeOutput(this.state.options.stream, chunk)
   }
 }
@@ -0,0 +1,761 @@
+import { Spinner } from '@core/Spinner'
+import { getColorLevel } from '@utils/Colors'
+import { formatDuration } from '@utils/Format'
+import {
+  HIDE_CURSOR,
+  SHOW_CURSOR,
+  eraseLines,
+  getRedrawInterval,
+  isInteractiveStream
+} from '@utils/Terminal'
+import { registerActiveComponent, unregisterActiveComponent, writeOutput } from '@utils/Output'
+import type { ColorLevel } from '@interfaces/Colors'
+import type { ActiveComponent } from '@interfaces/Output'
+import type { CompletionStatus } from '@interfaces/Spinner'
+import type {
+  TaskConcurrency,
+  TaskContext,
+  TaskDefinition,
+  TaskGroupSettings,
+  TaskListOptions,
+  TaskListOptionsInternal,
+  TaskListResult,
+  TaskListState,
+  TaskResult,
+  TaskStatus
+} from '@interfaces/TaskList'
+
+/**
+ * Completion symbols shown on the rows of finished tasks
+ */
+const STATUS_COMPLETIONS: Partial<Record<TaskStatus, CompletionStatus>> = {
+  succeeded: 'succeed',
+  failed: 'fail',
+  skipped: 'warn',
+  aborted: 'warn'
+}
+
+/**
+ * Task states whose subtasks are shown below the task row
+ */
+const EXPANDED_STATUSES: TaskStatus[] = ['running', 'succeeded', 'failed']
+
+/**
+ * TaskListItem - Single task row managed by a TaskList
+ *
+ * Created by the task list for every declared task and passed to its run
+ * function as the task handle. Tracks the state, timing and subtasks of the task.
+ */
+export class TaskListItem<C = TaskContext> {
+  /** Declaration the task was created from */
+  readonly definition: TaskDefinition<C>
+  /** Nesting level of the task, 0 for top-level tasks */
+  readonly depth: number
+  /** Items created for the subtasks in declaration order */
+  readonly subtasks: TaskListItem<C>[]
+  /** Spinner used to format the animated row and completion lines */
+  private readonly spinner: Spinner
+  /** Callback notifying the task list that the item changed */
+  private readonly onChange: (item: TaskListItem<C>) => void
+  /** Current title displayed on the row */
+  private text: string
+  /** Current lifecycle state of the task */
+  private current: TaskStatus = 'pending'
+  /** Signal of the group the task runs in */
+  private abortSignal: AbortSignal = new AbortController().signal
+  /** Timestamp when the task started, 0 when it never started */
+  private startTime = 0
+  /** Timestamp when the task finished, 0 while it is running */
+  private endTime = 0
+  /** Reason given when the task was skipped */
+  private skipReason = ''
+  /** Error thrown by the task or its first failed subtask */
+  private failure: unknown = undefined
+
+  /**
+   * Creates a new item and the items of its subtasks
+   *
+   * @param definition - Declaration of the task
+   * @param depth - Nesting level of the task
+   * @param createSpinner - Factory creating the spinner of this task and its subtasks
+   * @param onChange - Callback notifying the task list that the item changed
+   */
+  constructor(
+    definition: TaskDefinition<C>,
+    depth: number,
+    createSpinner: (title: string) => Spinner,
+    onChange: (item: TaskListItem<C>) => void
+  ) {
+    this.definition = definition
+    this.depth = depth
+    this.text = definition.title
+    this.spinner = createSpinner(definition.title)
+    this.onChange = onChange
+    this.subtasks = (definition.subtasks ?? []).map(
+      subtask => new TaskListItem(subtask, depth + 1, createSpinner, onChange)
+    )
+  }
+
+  /**
+   * Current title of the task
+   */
+  get title(): string {
+    return this.text
+  }
+
+  /**
+   * Effective time between two frames of the task spinner in milliseconds
+   */
+  get frameInterval(): number {
+    return this.spinner.frameInterval
+  }
+
+  /**
+   * Current lifecycle state of the task
+   */
+  get status(): TaskStatus {
+    return this.current
+  }
+
+  /**
+   * Signal aborted when a sibling fails and the group exits on error
+   */
+  get signal(): AbortSignal {
+    return this.abortSignal
+  }
+
+  /**
+   * Error thrown by the task or its first failed subtask, undefined otherwise
+   */
+  get error(): unknown {
+    return this.failure
+  }
+
+  /**
+   * Time the task has been running in milliseconds, 0 when it never started
+   */
+  get duration(): number {
+    if (!this.startTime) {
+      return 0
+    }
+    return (this.endTime || Date.now()) - this.startTime
+  }
+
+  /**
+   * Updates the title displayed on the task row
+   *
+   * @param title - New title of the task
+   */
+  updateTitle(title: string): void {
+    this.text = title
+    this.spinner.updateText(title)
+    this.onChange(this)
+  }
+
+  /**
+   * Marks the running task as skipped
+   *
+   * The run function keeps running until it returns, but the task is reported
+   * as skipped and its subtasks are not run.
+   *
+   * @param reason - Optional reason shown on the task row
+   */
+  skip(reason?: string): void {
+    if (this.current !== 'running') {
+      return
+    }
+    this.skipReason = reason ?? ''
+    this.settle('skipped')
+  }
+
+  /**
+   * Marks the task as running in the given group
+   *
+   * @param signal - Signal of the group the task runs in
+   */
+  begin(signal: AbortSignal): void {
+    this.abortSignal = signal
+    this.startTime = Date.now()
+    this.current = 'running'
+    this.spinner.startManaged()
+    this.onChange(this)
+  }
+
+  /**
+   * Marks the task as finished, ignoring tasks that already finished
+   *
+   * Subtasks that never started take the same state for skipped and disabled
+   * tasks, and are marked as aborted otherwise.
+   *
+   * @param status - Final state of the task
+   * @param error - Error that made the task fail
+   */
+  settle(status: TaskStatus, error?: unknown): void {
+    if (this.current !== 'pending' && this.current !== 'running') {
+      return
+    }
+    this.current = status
+    this.failure = error
+    this.endTime = this.startTime ? Date.now() : 0
+    void this.spinner.stop()
+    this.settleSubtasks(status === 'skipped' || status === 'disabled' ? status : 'aborted')
+    this.onChange(this)
+  }
+
+  /**
+   * Builds the row of this task followed by the rows of its visible subtasks
+   *
+   * @param level - Color level to emit
+   * @param showDuration - Appends the duration to finished rows
+   * @returns Indented rows without trailing newlines, empty for disabled tasks
+   */
+  format(level: ColorLevel, showDuration: boolean): string[] {
+    if (this.current === 'disabled') {
+      return []
+    }
+    const row = `${'  '.repeat(this.depth)}${this.formatRow(level, showDuration)}`
+    if (!EXPANDED_STATUSES.includes(this.current)) {
+      return [row]
+    }
+    return [row, ...this.subtasks.flatMap(item => item.format(level, showDuration))]
+  }
+
+  /**
+   * Builds the structured outcome of this task and its subtasks
+   *
+   * @returns Status, duration, skip reason and error of the task tree
+   */
+  toResult(): TaskResult {
+    return {
+      title: this.text,
+      status: this.current,
+      duration: this.duration,
+      skipReason: this.skipReason,
+      error: this.failure,
+      subtasks: this.subtasks.map(subtask => subtask.toResult())
+    }
+  }
+
+  /**
+   * Builds a fail line for this task using its own symbols
+   *
+   * @param level - Color level to emit
+   * @param text - Optional message text (uses current task text if not provided)
+   * @returns Styled fail line without trailing newline
+   */
+  formatFail(level: ColorLevel, text?: string): string {
+    return this.spinner.formatStatus('fail', text || this.text, level)
+  }
+
+  /**
+   * Marks all subtasks that never started with the given state, without notifying the task list
+   *
+   * @param status - State inherited from the parent task
+   */
+  private settleSubtasks(status: TaskStatus): void {
+    this.subtasks
+      .filter(subtask => subtask.current === 'pending')
+      .forEach(subtask => {
+        subtask.current = status
+        subtask.settleSubtasks(status)
+      })
+  }
+
+  /**
+   * Builds the row of this task without indentation
+   *
+   * Running rows animate at the frame interval and speed of their own spinner.
+   *
+   * @param level - Color level to emit
+   * @param showDuration - Appends the duration to finished rows
+   * @returns Spinner row while running, completion line once finished, plain title while pending
+   */
+  private formatRow(level: ColorLevel, showDuration: boolean): string {
+    const completion = STATUS_COMPLETIONS[this.current]
+    if (this.current === 'running') {
+      return this.spinner.format()
+    }
+    if (!completion) {
+      return `  ${this.text}`
+    }
+    const duration = showDuration && this.startTime ? ` (${formatDuration(this.duration)})` : ''
+    return this.spinner.formatStatus(
+      completion,
+      `${this.text}${this.describeStatus()}${duration}`,
+      level
+    )
+  }
+
+  /**
+   * Describes why a task did not succeed or fail
+   *
+   * @returns Suffix for skipped and aborted rows, empty otherwise
+   */
+  private describeStatus(): string {
+    if (this.current === 'aborted') {
+      return ' [aborted]'
+    }
+    if (this.current !== 'skipped') {
+      return ''
+    }
+    return this.skipReason ? ` [skipped: ${this.skipReason}]` : ' [skipped]'
+  }
+}
+
+/**
+ * TaskList - Hierarchical task runner rendering an indented tree of spinners
+ *
+ * Runs declared tasks one after another or concurrently with a limit, including
+ * nested subtasks. Each row shows a spinner while its task runs and a completion
+ * symbol once it finished. Failures abort the remaining siblings unless exitOnError
+ * is disabled, and the run resolves to the status and duration of every task.
+ */
+export class TaskList<C = TaskContext> {
+  /** Internal state management for the task list instance */
+  private state: TaskListState
+  /** Declarations of the top-level tasks */
+  private readonly definitions: TaskDefinition<C>[]
+  /** Items of the top-level tasks of the current run */
+  private items: TaskListItem<C>[] = []
+  /** Timer reference for animation loop */
+  private intervalId: ReturnType<typeof setInterval> | null = null
+  /** Time between two redraws of the running loop in milliseconds */
+  private redrawInterval = 0
+  /** Clear and redraw callbacks registered while the task list is animating */
+  private readonly activeComponent: ActiveComponent = {
+    clear: () => this.clear(),
+    redraw: () => this.render(),
+    abort: fail => this.abort(fail)
+  }
+  /** Default configuration options with fallback values */
+  private readonly defaultOptions: TaskListOptionsInternal = {
+    concurrent: false,
+    exitOnError: true,
+    showDuration: false,
+    spinner: {},
+    stream: process.stdout,
+    interactive: true,
+    hideCursor: true
+  }
+
+  /**
+   * Creates a new task list with the specified tasks and configuration
+   *
+   * @param tasks - Declarations of the top-level tasks
+   * @param options - Configuration options for execution, appearance and rendering mode
+   * @throws Error if a concurrency setting is not a boolean or a positive integer
+   */
+  constructor(tasks: TaskDefinition<C>[], options: TaskListOptions = {}) {
+    validateConcurrency(options.concurrent)
+    validateDefinitions(tasks)
+    const stream = options.stream ?? this.defaultOptions.stream
+    this.definitions = tasks
+    this.state = {
+      isRunning: false,
+      renderedLines: 0,
+      options: {
+        concurrent: options.concurrent ?? this.defaultOptions.concurrent,
+        exitOnError: options.exitOnError ?? this.defaultOptions.exitOnError,
+        showDuration: options.showDuration ?? this.defaultOptions.showDuration,
+        spinner: options.spinner ?? this.defaultOptions.spinner,
+        stream,
+        interactive: options.interactive ?? isInteractiveStream(stream),
+        hideCursor: options.hideCursor ?? this.defaultOptions.hideCursor
+      }
+    }
+  }
+
+  /**
+   * Runs all tasks and renders their progress as an indented tree
+   *
+   * Never rejects because of a failing task; failures are reported in the result.
+   *
+   * @param context - Shared object passed to every task (defaults to an empty object)
+   * @returns Overall success, total duration and the outcome of every task
+   * @throws Error if the task list is already running
+   */
+  async run(context?: C): Promise<TaskListResult> {
+    if (this.state.isRunning) {
+      throw new Error('TaskList run cannot be called while the tasks are running')
+    }
+    const createSpinner = (title: string): Spinner =>
+      new Spinner({
+        ...this.state.options.spinner,
+        text: title,
+        stream: this.state.options.stream,
+        interactive: false
+      })
+    this.items = this.definitions.map(
+      definition => new TaskListItem(definition, 0, createSpinner, item => this.handleChange(item))
+    )
+    const startTime = Date.now()
+    this.start()
+    const { concurrent, exitOnError } = this.state.options
+    await this.runGroup(this.items, context ?? ({} as C), { concurrent, exitOnError })
+    this.stop()
+    const tasks = this.items.map(item => item.toResult())
+    return {
+      success: !this.items.some(item => item.status === 'failed'),
+      duration: Date.now() - startTime,
+      tasks
+    }
+  }
+
+  /**
+   * Prints a message above the task tree without breaking its animation
+   *
+   * @param message - Message to print
+   */
+  log(message: string): void {
+    if (!this.state.isRunning || !this.state.options.interactive) {
+      this.write(`${message}\n`)
+      return
+    }
+    this.clear()
+    this.write(`${message}\n`)
+    this.render()
+  }
+
+  /**
+   * Runs a group of sibling tasks with the group's concurrency limit
+   *
+   * The group signal is aborted when the parent signal aborts, or when a task
+   * fails and the group exits on error. Tasks not started by then are aborted.
+   *
+   * @param items - Sibling tasks in declaration order
+   * @param context - Shared object passed to every task
+   * @param settings - Concurrency and error handling of the group
+   * @param parentSignal - Signal of the parent task's group
+   */
+  private async runGroup(
+    items: TaskListItem<C>[],
+    context: C,
+    settings: TaskGroupSettings,
+    parentSignal?: AbortSignal
+  ): Promise<void> {
+    const controller = new AbortController()
+    const abortGroup = (): void => controller.abort()
+    parentSignal?.addEventListener('abort', abortGroup)
+    if (parentSignal?.aborted) {
+      abortGroup()
+    }
+    const queue = [...items]
+    const worker = async (): Promise<void> => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        await this.runTask(item, context, settings, controller.signal)
+        if (item.status === 'failed' && settings.exitOnError) {
+          abortGroup()
+        }
+      }
+    }
+    const workers = Math.min(getConcurrencyLimit(settings.concurrent), items.length)
+    await Promise.all(Array.from({ length: workers }, () => worker()))
+    parentSignal?.removeEventListener('abort', abortGroup)
+  }
+
+  /**
+   * Runs a single task followed by its subtasks
+   *
+   * @param item - Task to run
+   * @param context - Shared object passed to every task
+   * @param settings - Settings of the task's group, inherited by its subtasks
+   * @param signal - Signal of the task's group
+   */
+  private async runTask(
+    item: TaskListItem<C>,
+    context: C,
+    settings: TaskGroupSettings,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (signal.aborted) {
+      item.settle('aborted')
+      return
+    }
+    const { definition } = item
+    try {
+      const enabled = await isEnabled(definition, context)
+      if (!enabled) {
+        item.settle('disabled')
+        return
+      }
+      item.begin(signal)
+      this.printStart(item)
+      const skipReason = await getSkipReason(definition, context)
+      if (skipReason !== false) {
+        item.skip(skipReason)
+        return
+      }
+      await definition.run?.(context, item)
+      await this.runSubtasks(item, context, settings)
+      item.settle('succeeded')
+    } catch (error) {
+      item.settle(signal.aborted ? 'aborted' : 'failed', error)
+    }
+  }
+
+  /**
+   * Runs the subtasks of a running task
+   *
+   * @param item - Parent task
+   * @param context - Shared object passed to every task
+   * @param settings - Settings of the parent's group, used where the parent does not override them
+   * @throws The error of the first failed subtask
+   */
+  private async runSubtasks(
+    item: TaskListItem<C>,
+    context: C,
+    settings: TaskGroupSettings
+  ): Promise<void> {
+    if (item.status !== 'running' || item.subtasks.length === 0) {
+      return
+    }
+    const { definition } = item
+    await this.runGroup(
+      item.subtasks,
+      context,
+      {
+        concurrent: definition.concurrent ?? settings.concurrent,
+        exitOnError: definition.exitOnError ?? settings.exitOnError
+      },
+      item.signal
+    )
+    const failed = item.subtasks.find(subtask => subtask.status === 'failed')
+    if (failed) {
+      throw failed.error
+    }
+  }
+
+  /**
+   * Starts the shared animation loop for all task rows
+   */
+  private start(): void {
+    this.state.isRunning = true
+    this.state.renderedLines = 0
+    registerActiveComponent(this.activeComponent)
+    if (!this.state.options.interactive) {
+      return
+    }
+    if (this.state.options.hideCursor) {
+      this.write(HIDE_CURSOR)
+    }
+    this.render()
+    this.runRedrawLoop()
+  }
+
+  /**
+   * Stops the animation loop and prints the final task tree
+   */
+  private stop(): void {
+    if (!this.state.isRunning) {
+      return
+    }
+    this.state.isRunning = false
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    if (this.state.options.interactive) {
+      const lines = this.formatLines(getColorLevel(this.state.options.stream))
+      const output = lines.length > 0 ? `${lines.join('\n')}\n` : ''
+      const cursor = this.state.options.hideCursor ? SHOW_CURSOR : ''
+      this.write(`${eraseLines(this.state.renderedLines)}${output}${cursor}`)
+      this.state.renderedLines = 0
+    }
+    unregisterActiveComponent(this.activeComponent)
+  }
+
+  /**
+   * Reacts to task updates by redrawing or printing completion lines
+   *
+   * @param item - Task that changed
+   */
+  private handleChange(item: TaskListItem<C>): void {
+    if (!this.state.isRunning) {
+      return
+    }
+    if (this.state.options.interactive) {
+      this.render()
+      this.runRedrawLoop()
+      return
+    }
+    if (item.status === 'running') {
+      return
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const [row] = item.format(level, this.state.options.showDuration)
+    if (row) {
+      this.write(`${row}\n`)
+    }
+  }
+
+  /**
+   * Runs the redraw loop at the shortest frame interval of the running tasks
+   *
+   * A running loop is only restarted when that interval changed.
+   */
+  private runRedrawLoop(): void {
+    const interval = getRedrawInterval(collectRunning(this.items).map(item => item.frameInterval))
+    if (this.intervalId) {
+      if (interval === this.redrawInterval) {
+        return
+      }
+      clearInterval(this.intervalId)
+    }
+    this.redrawInterval = interval
+    this.intervalId = setInterval(() => this.render(), interval)
+  }
+
+  /**
+   * Prints a plain line for a task that started in line-based mode
+   *
+   * @param item - Task that started
+   */
+  private printStart(item: TaskListItem<C>): void {
+    if (this.state.options.interactive) {
+      return
+    }
+    this.write(`${'  '.repeat(item.depth)}- ${item.title}\n`)
+  }
+
+  /**
+   * Redraws all task rows in place
+   */
+  private render(): void {
+    if (!this.state.isRunning || !this.state.options.interactive) {
+      return
+    }
+    const lines = this.formatLines(getColorLevel(this.state.options.stream))
+    this.write(`${eraseLines(this.state.renderedLines)}${lines.join('\n')}`)
+    this.state.renderedLines = lines.length
+  }
+
+  /**
+   * Builds the rows of all visible tasks in tree order
+   *
+   * @param level - Color level to emit
+   * @returns Indented rows without trailing newlines
+   */
+  private formatLines(level: ColorLevel): string[] {
+    const { showDuration } = this.state.options
+    return this.items.flatMap(item => item.format(level, showDuration))
+  }
+
+  /**
+   * Stops the task list synchronously when the process exits or is interrupted
+   *
+   * A fail line is printed for each running task, using the symbols of that task.
+   *
+   * @param fail - True to use the title of each task as fail text, or a custom fail text
+   */
+  private abort(fail: boolean | string): void {
+    const running = collectRunning(this.items)
+    this.stop()
+    if (!fail) {
+      return
+    }
+    const level = getColorLevel(this.state.options.stream)
+    const text = fail === true ? undefined : fail
+    running.forEach(item => this.write(`${item.formatFail(level, text)}\n`))
+  }
+
+  /**
+   * Erases all lines drawn by the previous frame
+   */
+  private clear(): void {
+    this.write(eraseLines(this.state.renderedLines))
+    this.state.renderedLines = 0
+  }
+
+  /**
+   * Writes a chunk of output to the configured stream
+   *
+   * @param chunk - Raw terminal output including ANSI escape sequences
+   */
+  private write(chunk: string): void {
+    writeOutput(this.state.options.stream, chunk)
+  }
+}
+
+/**
+ * Converts a concurrency setting into the number of tasks run at the same time
+ *
+ * @param concurrent - False, true or a positive integer
+ * @returns 1 for false, Infinity for true, the limit otherwise
+ */
+function getConcurrencyLimit(concurrent: TaskConcurrency): number {
+  if (typeof concurrent === 'number') {
+    return concurrent
+  }
+  return concurrent ? Infinity : 1
+}
+
+/**
+ * Validates a concurrency setting
+ *
+ * @param concurrent - Setting to validate
+ * @throws Error if the setting is a number that is not a positive integer
+ */
+function validateConcurrency(concurrent: TaskConcurrency | undefined): void {
+  if (typeof concurrent === 'number' && (!Number.isInteger(concurrent) || concurrent < 1)) {
+    throw new Error('TaskList concurrent must be a boolean or a positive integer')
+  }
+}
+
+/**
+ * Validates the concurrency settings of task declarations and their subtasks
+ *
+ * @param definitions - Task declarations to validate
+ * @throws Error if a concurrency setting is not a boolean or a positive integer
+ */
+function validateDefinitions<C>(definitions: TaskDefinition<C>[]): void {
+  definitions.forEach(definition => {
+    validateConcurrency(definition.concurrent)
+    validateDefinitions(definition.subtasks ?? [])
+  })
+}
+
+/**
+ * Evaluates the enabled predicate of a task
+ *
+ * @param definition - Task declaration
+ * @param context - Shared object passed to the predicate
+ * @returns False when the task is disabled
+ */
+async function isEnabled<C>(definition: TaskDefinition<C>, context: C): Promise<boolean> {
+  const { enabled } = definition
+  if (typeof enabled === 'function') {
+    return Boolean(await enabled(context))
+  }
+  return enabled ?? true
+}
+
+/**
+ * Evaluates the skip predicate of a task
+ *
+ * @param definition - Task declaration
+ * @param context - Shared object passed to the predicate
+ * @returns Skip reason (empty when none was given), or false when the task runs
+ */
+async function getSkipReason<C>(
+  definition: TaskDefinition<C>,
+  context: C
+): Promise<string | false> {
+  const { skip } = definition
+  const result = typeof skip === 'function' ? await skip(context) : skip
+  if (!result) {
+    return false
+  }
+  return result === true ? '' : result
+}
+
+/**
+ * Collects all running tasks of a tree in tree order
+ *
+ * @param items - Tasks to inspect
+ * @returns Running tasks including running subtasks
+ */
+function collectRunning<C>(items: TaskListItem<C>[]): TaskListItem<C>[] {
+  return items.flatMap(item =>
+    item.status === 'running' ? [item, ...collectRunning(item.subtasks)] : []
+  )
+}
@@ -11,14 +11,167 @@ export { Spinner } from '@core/Spinner'
 /** Terminal progress bar component with visual progress tracking */
 export { Progress } from '@core/Progress'
 
+/** Container rendering several spinners on separate lines */
+export { MultiSpinner, MultiSpinnerItem } from '@core/MultiSpinner'
+
+/** Container rendering several progress bars on separate lines */
+export { MultiProgress, MultiProgressBar } from '@core/MultiProgress'
+
+/** Hierarchical task runner rendering an indented tree of spinners */
+export { TaskList, TaskListItem } from '@core/TaskList'
+
+/** Transform stream advancing a progress bar by bytes passed through */
+export { ProgressStream } from '@core/ProgressStream'
+
 /** Main utility class for creating terminal UI elements */
 export { ConsoleKit } from '@core/ConsoleKit'
 
-/** Color utility functions for terminal text and background styling */
-export { getColorCode, getBackgroundColorCode, getStyleCode } from '@utils/Colors'
+/** Color utility functions for terminal text and background styling and color parsing */
+export {
+  getColorCode,
+  getBackgroundColorCode,
+  getStyleCode,
+  getUnderlineColorCode,
+  getResetCode,
+  getColorLevel,
+  setColorLevel,
+  parseColor,
+  setStrictColors,
+  getStrictColors
+} from '@utils/Colors'
+
+/** Color model conversions, adjustments and WCAG contrast helpers */
+export {
+  toRGB,
+  toHSL,
+  toHex,
+  lighten,
+  darken,
+  saturate,
+  mix,
+  invert,
+  getLuminance,
+  getContrastRatio,
+  getReadableColor
+} from '@utils/Colors'
+
+/** Chainable text styler with nesting-safe sequences */
+export { style, createStyler } from '@utils/Style'
+
+/** Value formatting utilities for durations, numbers, byte sizes, units and line templates */
+export {
+  formatDuration,
+  formatNumber,
+  formatBytes,
+  formatValue,
+  formatRate,
+  renderTemplate
+} from '@utils/Format'
+
+/** Console interception and terminal restoration on exit while components are active */
+export { setConsoleInterception, setExitHandling } from '@utils/Output'
+
+/** Spinner style registry with the built-in catalog and cli-spinners compatibility */
+export {
+  registerSpinnerStyle,
+  registerSpinnerStyles,
+  getSpinnerStyle,
+  getSpinnerStyleNames
+} from '@utils/Spinners'
+
+/** Completion symbol configuration with Unicode and ASCII fallbacks */
+export { setSymbols, getStatusSymbol } from '@utils/Symbols'
+
+/** Terminal capability detection and hyperlinks for interactive rendering and color support */
+export {
+  isInteractiveStream,
+  isUnicodeSupported,
+  isHyperlinkSupported,
+  formatHyperlink,
+  detectColorLevel,
+  stripAnsi,
+  visibleWidth
+} from '@utils/Terminal'
 
 /** Type definitions for spinner configuration and state management */
-export type { SpinnerOptions, SpinnerState } from '@interfaces/Spinner'
+export type {
+  SpinnerOptions,
+  SpinnerState,
+  OutputStream,
+  CompletionStatus,
+  SpinnerWork,
+  SpinnerPromiseOptions,
+  SpinnerTaskOptions,
+  SpinnerAnimationStyle,
+  SpinnerStyleDefinition,
+  SpinnerStyleRegistry
+} from '@interfaces/Spinner'
+
+/** Type definitions for unit-aware value formatting */
+export type {
+  ByteStandard,
+  FormatUnit,
+  UnitFormatter,
+  UnitFormatOptions,
+  ByteFormatOptions
+} from '@interfaces/Format'
+
+/** Type definitions for exit handling configuration */
+export type { ExitHandlingOptions } from '@interfaces/Output'
+
+/** Type definitions for completion symbols and persisted final lines */
+export type { StatusSymbol, StatusSymbolOptions, PersistOptions } from '@interfaces/Symbols'
+
+/** Type definitions for multi-spinner configuration and state management */
+export type { MultiSpinnerOptions, MultiSpinnerState } from '@interfaces/MultiSpinner'
+
+/** Type definitions for task list declarations, configuration and results */
+export type {
+  TaskContext,
+  TaskStatus,
+  TaskPredicate,
+  TaskConcurrency,
+  TaskHandle,
+  TaskDefinition,
+  TaskListOptions,
+  TaskListState,
+  TaskResult,
+  TaskListResult
+} from '@interfaces/TaskList'
 
 /** Type definitions for progress bar configuration and state management */
-export type { ProgressOptions, ProgressState } from '@interfaces/Progress'
+export type {
+  ProgressOptions,
+  ProgressState,
+  ProgressPayload,
+  ProgressWidth,
+  ProgressSegment
+} from '@interfaces/Progress'
+
+/** Type definitions for multi-progress configuration and state management */
+export type {
+  MultiProgressOptions,
+  MultiProgressState,
+  MultiProgressAggregateOptions
+} from '@interfaces/MultiProgress'
+
+/** Type definitions for the chainable text styler */
+export type {
+  Styler,
+  StyleName,
+  StyleModifier,
+  BackgroundColorName,
+  StyleProperties
+} from '@interfaces/Style'
+
+/** Type definitions for color levels, named colors, text styles, RGB and HSL components and color inputs */
+export type {
+  ColorLevel,
+  NamedColor,
+  TextStyleOptions,
+  RGBColor,
+  HSLColor,
+  RGBTuple,
+  ColorInput,
+  ParsedColor
+} from '@interfaces/Colors'
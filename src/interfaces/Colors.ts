@@ -0,0 +1,118 @@
+/**
+ * Color support levels of a terminal or output stream
+ *
+ * Describes how many colors can be displayed, from lowest to highest capability:
+ * - 'none': No color support, escape sequences are omitted
+ * - 'ansi16': Basic 16-color palette (30-37, 90-97)
+ * - 'ansi256': Extended 256-color palette (38;5;n)
+ * - 'truecolor': 24-bit RGB colors (38;2;r;g;b)
+ */
+export type ColorLevel = 'none' | 'ansi16' | 'ansi256' | 'truecolor'
+
+/**
+ * Predefined color names available for text and background colors
+ */
+export type NamedColor =
+  | 'black'
+  | 'blue'
+  | 'brown'
+  | 'cyan'
+  | 'gold'
+  | 'gray'
+  | 'green'
+  | 'indigo'
+  | 'lime'
+  | 'magenta'
+  | 'orange'
+  | 'pink'
+  | 'purple'
+  | 'red'
+  | 'teal'
+  | 'white'
+  | 'yellow'
+  | 'brightBlack'
+  | 'brightBlue'
+  | 'brightCyan'
+  | 'brightGreen'
+  | 'brightMagenta'
+  | 'brightRed'
+  | 'brightWhite'
+  | 'brightYellow'
+
+/**
+ * Text styles rendered with SGR (Select Graphic Rendition) sequences
+ *
+ * Double and curly underlines use the extended underline sequences (4:2 and 4:3),
+ * which terminals without support render as a plain underline or ignore.
+ */
+export interface TextStyleOptions {
+  /** Bold or increased intensity */
+  bold?: boolean | undefined
+  /** Faint or decreased intensity */
+  dim?: boolean | undefined
+  /** Italic text */
+  italic?: boolean | undefined
+  /** Single underline */
+  underline?: boolean | undefined
+  /** Double underline */
+  doubleUnderline?: boolean | undefined
+  /** Curly (wavy) underline */
+  curlyUnderline?: boolean | undefined
+  /** Slow blink */
+  blink?: boolean | undefined
+  /** Swapped foreground and background colors */
+  inverse?: boolean | undefined
+  /** Invisible text that still occupies its cells */
+  hidden?: boolean | undefined
+  /** Line through the text */
+  strikethrough?: boolean | undefined
+  /** Line above the text */
+  overline?: boolean | undefined
+}
+
+/**
+ * RGB color components
+ *
+ * Each component ranges from 0 to 255.
+ */
+export interface RGBColor {
+  /** Red component (0-255) */
+  r: number
+  /** Green component (0-255) */
+  g: number
+  /** Blue component (0-255) */
+  b: number
+}
+
+/**
+ * HSL color components
+ */
+export interface HSLColor {
+  /** Hue in degrees (0-360) */
+  h: number
+  /** Saturation in percent (0-100) */
+  s: number
+  /** Lightness in percent (0-100) */
+  l: number
+}
+
+/**
+ * RGB color as a [red, green, blue] tuple, each component ranging from 0 to 255
+ */
+export type RGBTuple = readonly [number, number, number]
+
+/**
+ * Color accepted by the color utilities and components
+ *
+ * Strings may be terminal or CSS color names, hex codes (#RGB, #RGBA, #RRGGBB,
+ * #RRGGBBAA), rgb()/rgba(), hsl()/hsla(), ansi256(n) or "r,g,b" values.
+ */
+export type ColorInput = string | RGBTuple | RGBColor
+
+/**
+ * Color resolved from a ColorInput
+ *
+ * Terminal color names and ansi256(n) resolve to a 256-color palette index,
+ * all other formats to RGB components. Alpha channels are ignored.
+ */
+export type ParsedColor = { kind: 'palette'; index: number } | { kind: 'rgb'; rgb: RGBColor }
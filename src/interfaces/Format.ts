@@ -0,0 +1,44 @@
+/**
+ * Byte unit standards for size formatting
+ *
+ * - 'si': Decimal units with base 1000 (kB, MB, GB)
+ * - 'iec': Binary units with base 1024 (KiB, MiB, GiB)
+ */
+export type ByteStandard = 'si' | 'iec'
+
+/**
+ * Function formatting a raw value for display
+ */
+export type UnitFormatter = (value: number) => string
+
+/**
+ * Unit used to display progress values, totals and rates
+ *
+ * - 'items': Plain locale-formatted numbers (e.g. '1,234')
+ * - 'bytes': Byte sizes (e.g. '12.3 MB')
+ * - 'bits': Bit sizes (e.g. '80.0 Mb')
+ * - Any other string: Custom label appended to the number (e.g. '12 files')
+ * - Function: Custom formatter receiving the raw value
+ */
+export type FormatUnit =
+  'items' | 'bytes' | 'bits' | (string & Record<never, never>) | UnitFormatter
+
+/**
+ * Options shared by the unit-aware value formatters
+ */
+export interface UnitFormatOptions {
+  /** Byte unit standard for 'bytes' and 'bits' units (defaults to 'si') */
+  standard?: ByteStandard | undefined
+  /** BCP 47 locale tag used by Intl.NumberFormat (defaults to 'en-US') */
+  locale?: string | undefined
+}
+
+/**
+ * Options for formatting byte and bit sizes
+ */
+export interface ByteFormatOptions extends UnitFormatOptions {
+  /** Formats the value as bits (b, kb, Mb) instead of bytes (defaults to false) */
+  bits?: boolean | undefined
+  /** Fraction digits shown for scaled units above a single byte or bit (defaults to 1) */
+  fractionDigits?: number | undefined
+}
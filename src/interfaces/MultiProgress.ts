@@ -0,0 +1,63 @@
+import type { OutputStream } from '@interfaces/Spinner'
+import type { ProgressOptions } from '@interfaces/Progress'
+
+/**
+ * Appearance options for the aggregate bar of a multi-progress container
+ *
+ * Same as ProgressOptions without the values, which are summed from all bars,
+ * and without the stream and mode, which come from the container.
+ */
+export type MultiProgressAggregateOptions = Omit<
+  ProgressOptions,
+  'total' | 'current' | 'stream' | 'interactive' | 'hideCursor'
+>
+
+/**
+ * Configuration options for a container rendering several progress bars at once
+ *
+ * All properties are optional and use sensible defaults when not specified.
+ * Appearance is configured per bar when adding it to the container.
+ */
+export interface MultiProgressOptions {
+  /** Output stream receiving all progress lines and completion messages */
+  stream?: OutputStream | undefined
+  /** Forces animated (true) or line-based (false) rendering instead of auto-detection */
+  interactive?: boolean | undefined
+  /** Hides the terminal cursor while animating (defaults to true) */
+  hideCursor?: boolean | undefined
+  /** Shows an aggregate bar summing all bars (true for defaults, or appearance options) */
+  aggregate?: boolean | MultiProgressAggregateOptions | undefined
+}
+
+/**
+ * Internal multi-progress state for managing the shared redraw loop
+ *
+ * Tracks rendering status and how many lines the last frame occupied
+ * so they can be erased before drawing the next frame.
+ */
+export interface MultiProgressState {
+  /** Indicates whether the redraw loop is currently active */
+  isRunning: boolean
+  /** Number of terminal lines written by the last frame */
+  renderedLines: number
+  /** Last 10% milestone of the aggregate bar printed in line-based mode, -1 before the first */
+  aggregateMilestone: number
+  /** Complete configuration options for the container instance */
+  options: MultiProgressOptionsInternal
+}
+
+/**
+ * Internal multi-progress options with all properties required
+ *
+ * Used internally after merging with defaults for type safety.
+ */
+export interface MultiProgressOptionsInternal {
+  /** Output stream receiving all progress lines and completion messages */
+  stream: OutputStream
+  /** Uses animated rendering when true, line-based rendering when false */
+  interactive: boolean
+  /** Hides the terminal cursor while animating */
+  hideCursor: boolean
+  /** Appearance options of the aggregate bar, or null when disabled */
+  aggregate: MultiProgressAggregateOptions | null
+}
@@ -0,0 +1,45 @@
+import type { OutputStream } from '@interfaces/Spinner'
+
+/**
+ * Configuration options for a container rendering several spinners at once
+ *
+ * All properties are optional and use sensible defaults when not specified.
+ * Appearance is configured per spinner when adding it to the container.
+ */
+export interface MultiSpinnerOptions {
+  /** Output stream receiving all spinner lines and completion messages */
+  stream?: OutputStream | undefined
+  /** Forces animated (true) or line-based (false) rendering instead of auto-detection */
+  interactive?: boolean | undefined
+  /** Hides the terminal cursor while animating (defaults to true) */
+  hideCursor?: boolean | undefined
+}
+
+/**
+ * Internal multi-spinner state for managing the shared redraw loop
+ *
+ * Tracks animation status and how many lines the last frame occupied
+ * so they can be erased before drawing the next frame.
+ */
+export interface MultiSpinnerState {
+  /** Indicates whether the redraw loop is currently active */
+  isRunning: boolean
+  /** Number of terminal lines written by the last frame */
+  renderedLines: number
+  /** Complete configuration options for the container instance */
+  options: MultiSpinnerOptionsInternal
+}
+
+/**
+ * Internal multi-spinner options with all properties required
+ *
+ * Used internally after merging with defaults for type safety.
+ */
+export interface MultiSpinnerOptionsInternal {
+  /** Output stream receiving all spinner lines and completion messages */
+  stream: OutputStream
+  /** Uses animated rendering when true, line-based rendering when false */
+  interactive: boolean
+  /** Hides the terminal cursor while animating */
+  hideCursor: boolean
+}
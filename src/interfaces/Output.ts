@@ -0,0 +1,34 @@
+/**
+ * Component currently drawing animated output to a terminal
+ *
+ * Registered by spinners, progress bars and their containers while running so
+ * that other output can be printed above them without being overwritten.
+ */
+export interface ActiveComponent {
+  /** Clears the lines currently drawn by the component */
+  clear: () => void
+  /** Redraws the component after other output was printed */
+  redraw: () => void
+  /** Stops the component synchronously, printing a fail line for true or a custom text */
+  abort: (fail: boolean | string) => void
+}
+
+/**
+ * Configuration of the process handlers restoring the terminal on exit
+ */
+export interface ExitHandlingOptions {
+  /** Stops active components on SIGINT, SIGTERM, exit and uncaught exceptions (defaults to true) */
+  enabled?: boolean | undefined
+  /** Prints a fail line with each component's text (true) or a custom text (defaults to false) */
+  failText?: boolean | string | undefined
+}
+
+/**
+ * Internal exit handling configuration with all properties required
+ */
+export interface ExitHandlingOptionsInternal {
+  /** Stops active components on SIGINT, SIGTERM, exit and uncaught exceptions */
+  enabled: boolean
+  /** Prints a fail line with each component's text (true) or a custom text */
+  failText: boolean | string
+}
@@ -1,4 +1,7 @@
-import type { ColorOption } from '@interfaces/Spinner'
+import type { ColorInput } from '@interfaces/Colors'
+import type { ColorOption, OutputStream } from '@interfaces/Spinner'
+import type { ByteStandard, FormatUnit } from '@interfaces/Format'
+import type { StatusSymbolOptions } from '@interfaces/Symbols'
 
 /**
  * Available progress bar visual styles for terminal progress indicators
@@ -7,20 +10,51 @@ import type { ColorOption } from '@interfaces/Spinner'
  * - 'bar': Solid filled bar with empty blocks (████████░░)
  * - 'blocks': Square blocks pattern (▣▣▣▣▣▣▣▣▣▣)
  * - 'dots': Circular dots pattern (●●●●●●○○○○)
+ * - 'smooth': Solid bar with eighth-block partial cells (██████▍   )
+ * - 'ascii': ASCII-only bar for terminals without Unicode ([=====>    ])
  */
-export type ProgressBarStyle = 'bar' | 'blocks' | 'dots'
+export type ProgressBarStyle = 'bar' | 'blocks' | 'dots' | 'smooth' | 'ascii'
+
+/**
+ * Width of the visual progress bar
+ *
+ * Either a fixed number of cells or 'auto' to size the bar from the stream's
+ * columns minus the visible width of the rest of the line.
+ */
+export type ProgressWidth = number | 'auto'
+
+/**
+ * Named segment of a stacked progress bar
+ *
+ * Segments are drawn in order within one bar, each in its own color,
+ * e.g. succeeded, failed and skipped counts.
+ */
+export interface ProgressSegment {
+  /** Segment name used by increment() and as format template token */
+  name: string
+  /** Color of the segment cells (defaults to the bar color) */
+  color?: ColorOption | undefined
+}
+
+/**
+ * Custom values for user-defined format template tokens
+ *
+ * Each key can be referenced in a format template as `{key}`.
+ */
+export type ProgressPayload = Record<string, string | number>
 
 /**
  * Configuration options for customizing progress bar appearance and behavior
  *
- * All properties are optional except 'total' which is required.
+ * All properties are optional. Omitting 'total' (or setting it to null) creates an
+ * indeterminate progress bar that animates until a total is set with setTotal().
  * Provides comprehensive control over progress bar visual appearance and functionality.
  */
 export interface ProgressOptions {
   /** Text to display alongside the progress bar */
   text?: string | undefined
-  /** Total value for progress calculation (required) */
-  total: number
+  /** Total value for progress calculation, or null/omitted for indeterminate progress */
+  total?: number | null | undefined
   /** Current progress value (defaults to 0) */
   current?: number | undefined
   /** Progress bar animation style from predefined patterns */
@@ -28,7 +62,7 @@ export interface ProgressOptions {
   /** Color of the progress bar using ANSI color codes, hex codes, RGB values, or predefined color names */
   color?: ColorOption | undefined
   /** Background color for the progress bar text */
-  backgroundColor?: string | undefined
+  backgroundColor?: ColorInput | undefined
   /** Controls progress bar visibility on the terminal */
   show?: boolean | undefined
   /** Text styling options for bold formatting */
@@ -37,6 +71,58 @@ export interface ProgressOptions {
   italic?: boolean | undefined
   /** Text styling options for underline formatting */
   underline?: boolean | undefined
+  /** Text styling options for dim (faint) formatting */
+  dim?: boolean | undefined
+  /** Text styling options for swapping foreground and background colors */
+  inverse?: boolean | undefined
+  /** Text styling options for strikethrough formatting */
+  strikethrough?: boolean | undefined
+  /** Text styling options for invisible text */
+  hidden?: boolean | undefined
+  /** Text styling options for overline formatting */
+  overline?: boolean | undefined
+  /** Text styling options for double underline formatting */
+  doubleUnderline?: boolean | undefined
+  /** Text styling options for curly (wavy) underline formatting */
+  curlyUnderline?: boolean | undefined
+  /** Text styling options for blinking text */
+  blink?: boolean | undefined
+  /** Color of the underline using the same formats as color */
+  underlineColor?: ColorInput | undefined
+  /** URL the text and completion messages link to (OSC 8, with a plain-text fallback) */
+  link?: string | undefined
+  /** Output stream receiving all progress frames and completion messages */
+  stream?: OutputStream | undefined
+  /** Forces animated (true) or line-based (false) rendering instead of auto-detection */
+  interactive?: boolean | undefined
+  /** Hides the terminal cursor while animating (defaults to true) */
+  hideCursor?: boolean | undefined
+  /** Overrides for the glyph and color of each completion state */
+  symbols?: StatusSymbolOptions | undefined
+  /** Counts time spent paused towards elapsed time and rate estimates (defaults to false) */
+  includePausedTime?: boolean | undefined
+  /** Time between two redraws in milliseconds (defaults to 80) */
+  interval?: number | undefined
+  /**
+   * Line template with `{token}` placeholders (defaults to '{bar} {percentage} {text}')
+   *
+   * Built-in tokens: bar, percentage, value, total, eta, rate, elapsed, text.
+   * Value, total and rate are formatted in the configured unit.
+   * Any other token is read from the payload.
+   */
+  format?: string | undefined
+  /** Initial values for custom format template tokens */
+  payload?: ProgressPayload | undefined
+  /** Bar width in cells, or 'auto' to fill the terminal width (defaults to 20) */
+  width?: ProgressWidth | undefined
+  /** Stacked segments drawn in different colors within one bar (first segment is the default) */
+  segments?: ProgressSegment[] | undefined
+  /** Unit of the value, total and rate tokens: 'items', 'bytes', 'bits', a label or a formatter */
+  unit?: FormatUnit | undefined
+  /** Byte unit standard for 'bytes' and 'bits' units: 'si' (MB) or 'iec' (MiB), defaults to 'si' */
+  byteStandard?: ByteStandard | undefined
+  /** BCP 47 locale tag for number formatting (defaults to 'en-US') */
+  locale?: string | undefined
 }
 
 /**
@@ -48,14 +134,40 @@ export interface ProgressOptions {
 export interface ProgressState {
   /** Current text being displayed with the progress bar */
   text: string
-  /** Total value for progress calculation */
-  total: number
-  /** Current progress value */
+  /** Total value for progress calculation, or null while indeterminate */
+  total: number | null
+  /** Current progress value (sum of all segment values when segments are used) */
   current: number
+  /** Current value of each stacked segment keyed by segment name */
+  segmentValues: Record<string, number>
   /** Indicates whether the progress bar is currently active */
   isRunning: boolean
+  /** Indicates whether the progress bar is paused with its redraw loop suspended */
+  isPaused: boolean
+  /** Animation speed multiplier applied to the redraw interval */
+  speed: number
   /** Timestamp when the progress bar began */
   startTime: number
+  /** Timestamp when the current pause began, or 0 while not paused */
+  pausedAt: number
+  /** Total time in milliseconds spent in completed pauses */
+  pausedTime: number
+  /** Indicates whether a container draws the progress bar instead of its own redraw loop */
+  isManaged: boolean
+  /** Position in the indeterminate animation sequence at frameTime */
+  frameIndex: number
+  /** Timestamp from which further animation frames are counted */
+  frameTime: number
+  /** Last milestone (in tens of percent) printed in line-based mode */
+  lastMilestone: number
+  /** Current values for custom format template tokens */
+  payload: ProgressPayload
+  /** Smoothed progress rate in units per second, or null before the first sample */
+  rate: number | null
+  /** Timestamp of the last rate sample */
+  lastSampleTime: number
+  /** Progress value at the last rate sample */
+  lastSampleValue: number
   /** Complete configuration options for the progress bar instance */
   options: ProgressOptionsInternal
 }
@@ -69,8 +181,8 @@ export interface ProgressState {
 export interface ProgressOptionsInternal {
   /** Text to display alongside the progress bar */
   text: string
-  /** Total value for progress calculation */
-  total: number
+  /** Total value for progress calculation, or null for indeterminate progress */
+  total: number | null
   /** Current progress value */
   current: number
   /** Progress bar animation style from predefined patterns */
@@ -78,7 +190,7 @@ export interface ProgressOptionsInternal {
   /** Color of the progress bar using ANSI color codes */
   color: ColorOption
   /** Background color for the progress bar text */
-  backgroundColor: string
+  backgroundColor: ColorInput
   /** Controls progress bar visibility on the terminal */
   show: boolean
   /** Text styling options for bold formatting */
@@ -87,4 +199,50 @@ export interface ProgressOptionsInternal {
   italic: boolean
   /** Text styling options for underline formatting */
   underline: boolean
+  /** Text styling options for dim (faint) formatting */
+  dim: boolean
+  /** Text styling options for swapping foreground and background colors */
+  inverse: boolean
+  /** Text styling options for strikethrough formatting */
+  strikethrough: boolean
+  /** Text styling options for invisible text */
+  hidden: boolean
+  /** Text styling options for overline formatting */
+  overline: boolean
+  /** Text styling options for double underline formatting */
+  doubleUnderline: boolean
+  /** Text styling options for curly (wavy) underline formatting */
+  curlyUnderline: boolean
+  /** Text styling options for blinking text */
+  blink: boolean
+  /** Color of the underline, empty for the text color */
+  underlineColor: ColorInput
+  /** URL the text and completion messages link to, empty for no link */
+  link: string
+  /** Output stream receiving all progress frames and completion messages */
+  stream: OutputStream
+  /** Uses animated rendering when true, line-based rendering when false */
+  interactive: boolean
+  /** Hides the terminal cursor while animating */
+  hideCursor: boolean
+  /** Overrides for the glyph and color of each completion state */
+  symbols: StatusSymbolOptions
+  /** Counts time spent paused towards elapsed time and rate estimates */
+  includePausedTime: boolean
+  /** Time between two redraws in milliseconds */
+  interval: number
+  /** Line template with `{token}` placeholders */
+  format: string
+  /** Initial values for custom format template tokens */
+  payload: ProgressPayload
+  /** Bar width in cells, or 'auto' to fill the terminal width */
+  width: ProgressWidth
+  /** Stacked segments drawn in different colors within one bar */
+  segments: ProgressSegment[]
+  /** Unit of the value, total and rate tokens */
+  unit: FormatUnit
+  /** Byte unit standard for 'bytes' and 'bits' units */
+  byteStandard: ByteStandard
+  /** BCP 47 locale tag for number formatting */
+  locale: string
 }
@@ -1,27 +1,120 @@
+import type { Writable } from 'node:stream'
+import type { ColorInput, RGBColor, RGBTuple } from '@interfaces/Colors'
+import type { StatusSymbolOptions } from '@interfaces/Symbols'
+
+/**
+ * Spinner animation style definition compatible with cli-spinners
+ *
+ * Any entry of the cli-spinners `spinners.json` file can be used as is.
+ */
+export interface SpinnerStyleDefinition {
+  /** Animation frames displayed in order */
+  frames: string[]
+  /** Time between two frames in milliseconds (defaults to 80) */
+  interval?: number | undefined
+}
+
+/**
+ * Registry of spinner animation styles available by name
+ *
+ * Contains the built-in catalog, e.g. 'dots', 'line', 'bouncingBar', 'clock',
+ * 'moon', 'earth' and 'aesthetic'. Styles added with registerSpinnerStyle() can be
+ * made available to the `style` option type by augmenting this interface:
+ *
+ * ```typescript
+ * declare module '@neabyte/console-kit' {
+ *   interface SpinnerStyleRegistry {
+ *     pulse: SpinnerStyleDefinition
+ *   }
+ * }
+ * ```
+ */
+export interface SpinnerStyleRegistry {
+  /** Basic dot animation (⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏) */
+  dots: SpinnerStyleDefinition
+  /** Dense braille dots (⣾⣽⣻⢿⡿⣟⣯⣷) */
+  dots2: SpinnerStyleDefinition
+  /** Wandering braille dots (⠋⠙⠚⠞⠖⠦⠴⠲⠳⠓) */
+  dots3: SpinnerStyleDefinition
+  /** Elegant corner rotation (│┤┘└┐┌┴┬) */
+  corners: SpinnerStyleDefinition
+  /** Directional arrows (←↖↑↗→↘↓↙) */
+  arrows: SpinnerStyleDefinition
+  /** Geometric triangles (◢◣◤◥) */
+  triangles: SpinnerStyleDefinition
+  /** Smooth circle rotation (◐◑◒◓) */
+  circles: SpinnerStyleDefinition
+  /** Twinkling stars (★☆✯✰) */
+  stars: SpinnerStyleDefinition
+  /** Classic ASCII line (-\|/) */
+  line: SpinnerStyleDefinition
+  /** Box-drawing pipe rotation (┤┘┴└├┌┬┐) */
+  pipe: SpinnerStyleDefinition
+  /** Growing ASCII dots (. .. ...) */
+  simpleDots: SpinnerStyleDefinition
+  /** Sparkling star (✶✸✹✺✹✷) */
+  star: SpinnerStyleDefinition
+  /** Vertically growing block (▁▃▄▅▆▇) */
+  growVertical: SpinnerStyleDefinition
+  /** Horizontally growing block (▏▎▍▌▋▊▉) */
+  growHorizontal: SpinnerStyleDefinition
+  /** Inflating balloon (.oO@*) */
+  balloon: SpinnerStyleDefinition
+  /** Shading noise (▓▒░) */
+  noise: SpinnerStyleDefinition
+  /** Bouncing braille dot (⠁⠂⠄⠂) */
+  bounce: SpinnerStyleDefinition
+  /** Rotating arc (◜◠◝◞◡◟) */
+  arc: SpinnerStyleDefinition
+  /** Rotating square corners (◰◳◲◱) */
+  squareCorners: SpinnerStyleDefinition
+  /** Flipping toggle (⊶⊷) */
+  toggle: SpinnerStyleDefinition
+  /** Trigram stack (☱☲☴) */
+  hamburger: SpinnerStyleDefinition
+  /** Moving point (∙∙∙ ●∙∙ ∙●∙ ∙∙●) */
+  point: SpinnerStyleDefinition
+  /** Stacking layers (-=≡) */
+  layer: SpinnerStyleDefinition
+  /** Bar bouncing inside brackets ([=== ]) */
+  bouncingBar: SpinnerStyleDefinition
+  /** Ball bouncing inside parentheses (( ●    )) */
+  bouncingBall: SpinnerStyleDefinition
+  /** Clock faces (🕛🕐🕑) */
+  clock: SpinnerStyleDefinition
+  /** Moon phases (🌑🌒🌓🌔🌕) */
+  moon: SpinnerStyleDefinition
+  /** Rotating globe (🌍🌎🌏) */
+  earth: SpinnerStyleDefinition
+  /** Filling segmented bar (▰▰▰▱▱▱▱) */
+  aesthetic: SpinnerStyleDefinition
+}
+
 /**
  * Available spinner animation patterns for terminal loading indicators
  *
- * Defines the visual animation patterns for spinners including:
- * - 'dots': Basic dot animation (⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏)
- * - 'corners': Elegant corner rotation (│┤┘└┐┌┴┬)
- * - 'arrows': Directional arrows (←↖↑↗→↘↓↙)
- * - 'triangles': Geometric triangles (◢◣◤◥)
- * - 'circles': Smooth circle rotation (◐◑◒◓)
- * - 'stars': Twinkling stars (★☆✯✰)
+ * Names of all built-in styles plus any style added to SpinnerStyleRegistry
+ * through module augmentation.
+ */
+export type SpinnerAnimationStyle = keyof SpinnerStyleRegistry
+
+/**
+ * Final states of a spinner or progress bar
+ *
+ * Each state is displayed with its own symbol and color:
+ * - 'succeed': Green checkmark (✔)
+ * - 'fail': Red X mark (✖)
+ * - 'warn': Yellow warning symbol (⚠)
+ * - 'info': Blue info symbol (ℹ)
  */
-export type SpinnerAnimationStyle =
-  | 'dots'
-  | 'corners'
-  | 'arrows'
-  | 'triangles'
-  | 'circles'
-  | 'stars'
+export type CompletionStatus = 'succeed' | 'fail' | 'warn' | 'info'
 
 /**
  * Available color options for terminal text and animation
  *
  * Includes standard colors, bright variants, extended colors, and custom color support.
- * Supports named colors, hex codes, RGB values, and undefined for default behavior.
+ * Supports named colors, CSS color names, hex codes, rgb(), hsl(), ansi256(n),
+ * RGB values and tuples, and undefined for default behavior.
  */
 export type ColorOption =
   | 'black'
@@ -50,8 +143,20 @@ export type ColorOption =
   | 'brown'
   | 'gold'
   | string
+  | RGBTuple
+  | RGBColor
   | undefined
 
+/**
+ * Writable output target for terminal rendering
+ *
+ * Accepts any writable stream such as process.stdout, process.stderr, a file stream,
+ * or a test double. Defaults to process.stdout when not specified. TTY streams expose
+ * isTTY, which is used to detect interactive terminals, and columns, which is used
+ * to fit output to the terminal width.
+ */
+export type OutputStream = Writable & { isTTY?: boolean; columns?: number }
+
 /**
  * Configuration options for customizing spinner appearance and behavior
  *
@@ -66,19 +171,78 @@ export interface SpinnerOptions {
   /** Color of the spinner using ANSI color codes, hex codes, RGB values, or predefined color names */
   color?: ColorOption | undefined
   /** Background color for the spinner text */
-  backgroundColor?: string | undefined
+  backgroundColor?: ColorInput | undefined
   /** Controls spinner visibility on the terminal */
   show?: boolean | undefined
-  /** Custom spinner character array for animation patterns */
-  spinner?: string[] | undefined
+  /** Custom animation frames, or a cli-spinners compatible definition with frames and interval */
+  spinner?: string[] | SpinnerStyleDefinition | undefined
+  /** Time between two animation frames in milliseconds (defaults to the style's interval) */
+  interval?: number | undefined
   /** Text styling options for bold formatting */
   bold?: boolean | undefined
   /** Text styling options for italic formatting */
   italic?: boolean | undefined
   /** Text styling options for underline formatting */
   underline?: boolean | undefined
+  /** Text styling options for dim (faint) formatting */
+  dim?: boolean | undefined
+  /** Text styling options for swapping foreground and background colors */
+  inverse?: boolean | undefined
+  /** Text styling options for strikethrough formatting */
+  strikethrough?: boolean | undefined
+  /** Text styling options for invisible text */
+  hidden?: boolean | undefined
+  /** Text styling options for overline formatting */
+  overline?: boolean | undefined
+  /** Text styling options for double underline formatting */
+  doubleUnderline?: boolean | undefined
+  /** Text styling options for curly (wavy) underline formatting */
+  curlyUnderline?: boolean | undefined
+  /** Text styling options for blinking text */
+  blink?: boolean | undefined
+  /** Color of the underline using the same formats as color */
+  underlineColor?: ColorInput | undefined
+  /** URL the text and completion messages link to (OSC 8, with a plain-text fallback) */
+  link?: string | undefined
+  /** Output stream receiving all spinner frames and completion messages */
+  stream?: OutputStream | undefined
+  /** Forces animated (true) or line-based (false) rendering instead of auto-detection */
+  interactive?: boolean | undefined
+  /** Hides the terminal cursor while animating (defaults to true) */
+  hideCursor?: boolean | undefined
+  /** Overrides for the glyph and color of each completion state */
+  symbols?: StatusSymbolOptions | undefined
+  /** Shows the live elapsed time after the text while animating (defaults to false) */
+  showElapsed?: boolean | undefined
+  /** Appends the total duration to completion lines (defaults to false) */
+  showDuration?: boolean | undefined
+  /** Counts time spent paused towards the elapsed time (defaults to false) */
+  includePausedTime?: boolean | undefined
 }
 
+/**
+ * Work tracked by a spinner: a promise or a function returning a value or promise
+ */
+export type SpinnerWork<T> = PromiseLike<T> | (() => PromiseLike<T> | T)
+
+/**
+ * Completion messages for spinners wrapping a promise or async function
+ *
+ * Messages can be static strings or functions of the resolved value or the thrown error.
+ * When omitted, the current spinner text is used.
+ */
+export interface SpinnerPromiseOptions<T> {
+  /** Success message, or function building it from the resolved value */
+  successText?: string | ((result: T) => string) | undefined
+  /** Failure message, or function building it from the thrown error */
+  failText?: string | ((error: unknown) => string) | undefined
+}
+
+/**
+ * Configuration options for ConsoleKit.task combining appearance and completion messages
+ */
+export type SpinnerTaskOptions<T> = SpinnerOptions & SpinnerPromiseOptions<T>
+
 /**
  * Internal spinner state for managing animation lifecycle and current frame
  *
@@ -90,10 +254,24 @@ export interface SpinnerState {
   text: string
   /** Indicates whether the spinner animation is currently active */
   isRunning: boolean
-  /** Current position in the spinner animation sequence */
+  /** Indicates whether the spinner is paused with its animation suspended */
+  isPaused: boolean
+  /** Indicates whether a container draws the spinner instead of its own animation loop */
+  isManaged: boolean
+  /** Timestamp when the current pause began */
+  pausedAt: number
+  /** Total time spent paused in milliseconds, excluding the current pause */
+  pausedTime: number
+  /** Animation speed multiplier applied to the frame interval */
+  speed: number
+  /** Position in the spinner animation sequence at frameTime */
   frameIndex: number
+  /** Timestamp from which further animation frames are counted */
+  frameTime: number
   /** Timestamp when the spinner animation began */
   startTime: number
+  /** Timestamp when the spinner was stopped, 0 while running */
+  stopTime: number
   /** Complete configuration options for the spinner instance */
   options: SpinnerOptionsInternal
 }
@@ -112,15 +290,51 @@ export interface SpinnerOptionsInternal {
   /** Color of the spinner using ANSI color codes */
   color: ColorOption
   /** Background color for the spinner text */
-  backgroundColor: string
+  backgroundColor: ColorInput
   /** Controls spinner visibility on the terminal */
   show: boolean
-  /** Custom spinner character array for animation patterns */
+  /** Animation frames of the resolved style or custom definition */
   spinner: string[]
+  /** Time between two animation frames in milliseconds */
+  interval: number
   /** Text styling options for bold formatting */
   bold: boolean
   /** Text styling options for italic formatting */
   italic: boolean
   /** Text styling options for underline formatting */
   underline: boolean
+  /** Text styling options for dim (faint) formatting */
+  dim: boolean
+  /** Text styling options for swapping foreground and background colors */
+  inverse: boolean
+  /** Text styling options for strikethrough formatting */
+  strikethrough: boolean
+  /** Text styling options for invisible text */
+  hidden: boolean
+  /** Text styling options for overline formatting */
+  overline: boolean
+  /** Text styling options for double underline formatting */
+  doubleUnderline: boolean
+  /** Text styling options for curly (wavy) underline formatting */
+  curlyUnderline: boolean
+  /** Text styling options for blinking text */
+  blink: boolean
+  /** Color of the underline, empty for the text color */
+  underlineColor: ColorInput
+  /** URL the text and completion messages link to, empty for no link */
+  link: string
+  /** Output stream receiving all spinner frames and completion messages */
+  stream: OutputStream
+  /** Uses animated rendering when true, line-based rendering when false */
+  interactive: boolean
+  /** Hides the terminal cursor while animating */
+  hideCursor: boolean
+  /** Overrides for the glyph and color of each completion state */
+  symbols: StatusSymbolOptions
+  /** Shows the live elapsed time after the text while animating */
+  showElapsed: boolean
+  /** Appends the total duration to completion lines */
+  showDuration: boolean
+  /** Counts time spent paused towards the elapsed time */
+  includePausedTime: boolean
 }
@@ -0,0 +1,61 @@
+import type { ColorInput, ColorLevel, NamedColor, TextStyleOptions } from '@interfaces/Colors'
+
+/**
+ * Text modifiers available as chainable styler properties
+ */
+export type StyleModifier = keyof TextStyleOptions
+
+/**
+ * Background color properties of the styler, e.g. bgRed or bgBrightBlue
+ */
+export type BackgroundColorName = `bg${Capitalize<NamedColor>}`
+
+/**
+ * Names of all chainable styler properties
+ */
+export type StyleName = StyleModifier | NamedColor | BackgroundColorName
+
+/**
+ * Chainable styler properties, each returning a styler with the style added
+ */
+export type StyleProperties = {
+  readonly [Name in StyleName]: Styler
+}
+
+/**
+ * Chainable text styler
+ *
+ * Calling the styler applies all chained styles to the text. Properties and
+ * methods return a new styler with one more style, e.g. `style.red.bold('text')`.
+ * Nested styled text restores the outer styles after its own styles end.
+ */
+export interface Styler extends StyleProperties {
+  /** Applies the chained styles to the given values joined with spaces */
+  (...text: unknown[]): string
+  /** Adds a text color in any format accepted by getColorCode */
+  color: (color: ColorInput) => Styler
+  /** Adds a background color in any format accepted by getBackgroundColorCode */
+  bgColor: (color: ColorInput) => Styler
+  /** Adds a text color from a hex code such as '#ff8800' or '#f80' */
+  hex: (hex: string) => Styler
+  /** Adds a background color from a hex code such as '#ff8800' or '#f80' */
+  bgHex: (hex: string) => Styler
+  /** Adds an underline color in any format accepted by getUnderlineColorCode */
+  underlineColor: (color: ColorInput) => Styler
+  /** Adds a text color from RGB components (0-255) */
+  rgb: (r: number, g: number, b: number) => Styler
+  /** Adds a background color from RGB components (0-255) */
+  bgRgb: (r: number, g: number, b: number) => Styler
+}
+
+/**
+ * Single style applied by a styler
+ *
+ * Open sequences are resolved when text is styled so the current color level applies.
+ */
+export interface StyleLayer {
+  /** Builds the sequence enabling the style, empty when it cannot be emitted */
+  open: (level: ColorLevel) => string
+  /** Sequence disabling only this style */
+  close: string
+}
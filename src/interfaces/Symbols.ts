@@ -0,0 +1,30 @@
+import type { ColorOption, CompletionStatus } from '@interfaces/Spinner'
+
+/**
+ * Glyph and color displayed for a completion state
+ */
+export interface StatusSymbol {
+  /** Glyph printed before the completion message */
+  symbol: string
+  /** Color of the glyph using hex codes, RGB values, or predefined color names */
+  color: ColorOption
+}
+
+/**
+ * Overrides for the glyph and color of each completion state
+ *
+ * States and properties that are not specified keep their defaults.
+ */
+export type StatusSymbolOptions = Partial<Record<CompletionStatus, Partial<StatusSymbol>>>
+
+/**
+ * Options for stopping a component with an arbitrary final line
+ */
+export interface PersistOptions {
+  /** Glyph printed before the text (no glyph when omitted or empty) */
+  symbol?: string | undefined
+  /** Final text (uses the current text if not provided) */
+  text?: string | undefined
+  /** Color of the glyph (defaults to no color) */
+  color?: ColorOption | undefined
+}
@@ -0,0 +1,163 @@
+import type { OutputStream, SpinnerOptions } from '@interfaces/Spinner'
+
+/**
+ * Shared object passed to every task so tasks can hand results to later ones
+ */
+export type TaskContext = Record<string, unknown>
+
+/**
+ * Lifecycle state of a task
+ *
+ * - pending: not started yet
+ * - running: run function or subtasks in progress
+ * - succeeded: finished without errors
+ * - failed: run function or a subtask threw
+ * - skipped: skip predicate returned true or a reason
+ * - disabled: enabled predicate returned false, the task is not shown
+ * - aborted: cancelled because a sibling failed
+ */
+export type TaskStatus =
+  'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'disabled' | 'aborted'
+
+/**
+ * Value or predicate evaluated with the shared context right before a task starts
+ */
+export type TaskPredicate<C, T> = T | ((context: C) => T | PromiseLike<T>)
+
+/**
+ * Number of tasks of a group run at the same time
+ *
+ * False runs tasks one after another, true runs all of them at once,
+ * and a positive integer limits how many run concurrently.
+ */
+export type TaskConcurrency = boolean | number
+
+/**
+ * Handle passed to a task's run function for updating its row
+ */
+export interface TaskHandle {
+  /** Current title of the task */
+  readonly title: string
+  /** Signal aborted when a sibling fails and the group exits on error */
+  readonly signal: AbortSignal
+  /** Updates the title displayed on the task row */
+  updateTitle: (title: string) => void
+  /** Marks the running task as skipped, with an optional reason shown on its row */
+  skip: (reason?: string) => void
+}
+
+/**
+ * Declaration of a single task and its optional subtasks
+ */
+export interface TaskDefinition<C = TaskContext> {
+  /** Title displayed on the task row */
+  title: string
+  /** Work of the task, receiving the shared context and the task handle */
+  run?: ((context: C, task: TaskHandle) => unknown) | undefined
+  /** Skips the task when true, or when a string reason is returned */
+  skip?: TaskPredicate<C, boolean | string> | undefined
+  /** Hides and ignores the task when false (defaults to true) */
+  enabled?: TaskPredicate<C, boolean> | undefined
+  /** Nested tasks run after the run function succeeds */
+  subtasks?: TaskDefinition<C>[] | undefined
+  /** Concurrency of the subtasks (defaults to the value of the parent group) */
+  concurrent?: TaskConcurrency | undefined
+  /** Aborts the remaining subtasks when one fails (defaults to the value of the parent group) */
+  exitOnError?: boolean | undefined
+}
+
+/**
+ * Configuration options for a hierarchical task list
+ *
+ * All properties are optional and use sensible defaults when not specified.
+ */
+export interface TaskListOptions {
+  /** Concurrency of the top-level tasks and default for subtasks (defaults to false) */
+  concurrent?: TaskConcurrency | undefined
+  /** Aborts the remaining sibling tasks when one fails (defaults to true) */
+  exitOnError?: boolean | undefined
+  /** Appends the duration to finished task rows (defaults to false) */
+  showDuration?: boolean | undefined
+  /** Appearance of the spinner shown on running rows (stream and mode come from the list) */
+  spinner?: SpinnerOptions | undefined
+  /** Output stream receiving all task rows */
+  stream?: OutputStream | undefined
+  /** Forces animated (true) or line-based (false) rendering instead of auto-detection */
+  interactive?: boolean | undefined
+  /** Hides the terminal cursor while animating (defaults to true) */
+  hideCursor?: boolean | undefined
+}
+
+/**
+ * Internal task list options with all properties required
+ *
+ * Used internally after merging with defaults for type safety.
+ */
+export interface TaskListOptionsInternal {
+  /** Concurrency of the top-level tasks and default for subtasks */
+  concurrent: TaskConcurrency
+  /** Aborts the remaining sibling tasks when one fails */
+  exitOnError: boolean
+  /** Appends the duration to finished task rows */
+  showDuration: boolean
+  /** Appearance of the spinner shown on running rows */
+  spinner: SpinnerOptions
+  /** Output stream receiving all task rows */
+  stream: OutputStream
+  /** Uses animated rendering when true, line-based rendering when false */
+  interactive: boolean
+  /** Hides the terminal cursor while animating */
+  hideCursor: boolean
+}
+
+/**
+ * Internal task list state for managing the shared redraw loop
+ */
+export interface TaskListState {
+  /** Indicates whether the tasks are currently running */
+  isRunning: boolean
+  /** Number of terminal lines written by the last frame */
+  renderedLines: number
+  /** Complete configuration options for the task list instance */
+  options: TaskListOptionsInternal
+}
+
+/**
+ * Outcome of a single task and its subtasks
+ */
+export interface TaskResult {
+  /** Title of the task when it finished */
+  title: string
+  /** Final state of the task */
+  status: TaskStatus
+  /** Time the task ran in milliseconds, 0 when it never started */
+  duration: number
+  /** Reason given by the skip predicate, empty when none was given */
+  skipReason: string
+  /** Error thrown by the task or its first failed subtask, undefined otherwise */
+  error: unknown
+  /** Outcomes of the subtasks in declaration order */
+  subtasks: TaskResult[]
+}
+
+/**
+ * Outcome of a whole task list run
+ */
+export interface TaskListResult {
+  /** True when no task failed */
+  success: boolean
+  /** Time the whole list ran in milliseconds */
+  duration: number
+  /** Outcomes of the top-level tasks in declaration order */
+  tasks: TaskResult[]
+}
+
+/**
+ * Execution settings of a group of sibling tasks, inherited by nested groups
+ */
+export interface TaskGroupSettings {
+  /** Number of sibling tasks run at the same time */
+  concurrent: TaskConcurrency
+  /** Aborts the remaining sibling tasks when one fails */
+  exitOnError: boolean
+}
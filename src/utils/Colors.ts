@@ -1,178 +1,843 @@
+import type {
+  ColorInput,
+  ColorLevel,
+  HSLColor,
+  NamedColor,
+  ParsedColor,
+  RGBColor,
+  TextStyleOptions
+} from '@interfaces/Colors'
+import type { ColorOption, OutputStream } from '@interfaces/Spinner'
+import { CSS_COLORS } from '@utils/CssColors'
+import { detectColorLevel } from '@utils/Terminal'
+
 /**
  * Named color mappings for terminal text coloring
  *
- * Provides ANSI escape sequences for standard colors, bright variants,
- * and extended 8-bit colors used in terminal applications.
- */
-const NAMED_COLORS = {
-  black: '\x1b[30m',
-  blue: '\x1b[34m',
-  brown: '\x1b[38;5;130m',
-  cyan: '\x1b[36m',
-  gold: '\x1b[38;5;220m',
-  gray: '\x1b[38;5;240m',
-  green: '\x1b[32m',
-  indigo: '\x1b[38;5;63m',
-  lime: '\x1b[38;5;154m',
-  magenta: '\x1b[35m',
-  orange: '\x1b[38;5;208m',
-  pink: '\x1b[38;5;213m',
-  purple: '\x1b[38;5;99m',
-  red: '\x1b[31m',
-  teal: '\x1b[38;5;51m',
-  white: '\x1b[38;5;255m',
-  yellow: '\x1b[33m',
-  brightBlack: '\x1b[38;5;232m',
-  brightBlue: '\x1b[94m',
-  brightCyan: '\x1b[96m',
-  brightGreen: '\x1b[92m',
-  brightMagenta: '\x1b[95m',
-  brightRed: '\x1b[91m',
-  brightWhite: '\x1b[97m',
-  brightYellow: '\x1b[93m'
-} as const
+ * Maps color names to 256-color palette indices. Indices 0-15 are emitted as
+ * standard and bright ANSI colors, higher indices use the extended 8-bit palette
+ * and are downsampled when the terminal only supports 16 colors.
+ */
+const NAMED_COLORS: Readonly<Record<NamedColor, number>> = {
+  black: 0,
+  blue: 4,
+  brown: 130,
+  cyan: 6,
+  gold: 220,
+  gray: 240,
+  green: 2,
+  indigo: 63,
+  lime: 154,
+  magenta: 5,
+  orange: 208,
+  pink: 213,
+  purple: 99,
+  red: 1,
+  teal: 51,
+  white: 255,
+  yellow: 3,
+  brightBlack: 232,
+  brightBlue: 12,
+  brightCyan: 14,
+  brightGreen: 10,
+  brightMagenta: 13,
+  brightRed: 9,
+  brightWhite: 15,
+  brightYellow: 11
+}
 
 /**
  * Named background color mappings for terminal text
  *
- * Provides ANSI escape sequences for background colors including
- * standard colors, bright variants, and extended 8-bit colors.
- */
-const NAMED_BACKGROUND_COLORS = {
-  black: '\x1b[40m',
-  blue: '\x1b[44m',
-  brown: '\x1b[48;5;130m',
-  cyan: '\x1b[46m',
-  gold: '\x1b[48;5;220m',
-  gray: '\x1b[48;5;240m',
-  green: '\x1b[42m',
-  indigo: '\x1b[48;5;63m',
-  lime: '\x1b[48;5;154m',
-  magenta: '\x1b[45m',
-  orange: '\x1b[48;5;208m',
-  pink: '\x1b[48;5;213m',
-  purple: '\x1b[48;5;99m',
-  red: '\x1b[41m',
-  teal: '\x1b[48;5;51m',
-  white: '\x1b[47m',
-  yellow: '\x1b[43m',
-  brightBlack: '\x1b[48;5;232m',
-  brightBlue: '\x1b[104m',
-  brightCyan: '\x1b[106m',
-  brightGreen: '\x1b[102m',
-  brightMagenta: '\x1b[105m',
-  brightRed: '\x1b[101m',
-  brightWhite: '\x1b[107m',
-  brightYellow: '\x1b[103m'
-} as const
+ * Maps color names to 256-color palette indices using the same rules as
+ * NAMED_COLORS, with background-specific variants where they differ.
+ */
+const NAMED_BACKGROUND_COLORS: Readonly<Record<NamedColor, number>> = {
+  ...NAMED_COLORS,
+  white: 7
+}
+
+/**
+ * SGR sequences enabling each text style, in emission order
+ */
+const STYLE_CODES: Record<keyof TextStyleOptions, string> = {
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  italic: '\x1b[3m',
+  underline: '\x1b[4m',
+  doubleUnderline: '\x1b[4:2m',
+  curlyUnderline: '\x1b[4:3m',
+  blink: '\x1b[5m',
+  inverse: '\x1b[7m',
+  hidden: '\x1b[8m',
+  strikethrough: '\x1b[9m',
+  overline: '\x1b[53m'
+}
+
+/**
+ * Default RGB values of the 16 standard ANSI colors (xterm palette)
+ *
+ * Used as the target palette when downsampling to 16-color terminals.
+ */
+const ANSI16_PALETTE: readonly RGBColor[] = [
+  { r: 0, g: 0, b: 0 },
+  { r: 205, g: 0, b: 0 },
+  { r: 0, g: 205, b: 0 },
+  { r: 205, g: 205, b: 0 },
+  { r: 0, g: 0, b: 238 },
+  { r: 205, g: 0, b: 205 },
+  { r: 0, g: 205, b: 205 },
+  { r: 229, g: 229, b: 229 },
+  { r: 127, g: 127, b: 127 },
+  { r: 255, g: 0, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 255, g: 255, b: 0 },
+  { r: 92, g: 92, b: 255 },
+  { r: 255, g: 0, b: 255 },
+  { r: 0, g: 255, b: 255 },
+  { r: 255, g: 255, b: 255 }
+]
+
+/**
+ * Component intensities of the 6x6x6 color cube in the 256-color palette
+ */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255] as const
+
+/** Default candidates of getReadableColor */
+const READABLE_COLORS: readonly ColorInput[] = ['#000000', '#ffffff']
+
+/** Names of the RGB channels, used in error messages */
+const RGB_CHANNELS = ['red', 'green', 'blue'] as const
+
+/** Globally forced color level, overriding stream detection when set */
+let forcedColorLevel: ColorLevel | undefined
+
+/** Whether invalid colors throw instead of falling back */
+let strictColors = false
+
+/**
+ * Forces a color level for all color utilities and components
+ *
+ * Overrides the automatic detection based on NO_COLOR, FORCE_COLOR, TERM,
+ * COLORTERM and stream TTY state. Pass undefined to restore detection.
+ *
+ * @param level - Color level to force, or undefined to use detection
+ */
+export const setColorLevel = (level: ColorLevel | undefined): void => {
+  forcedColorLevel = level
+}
+
+/**
+ * Resolves the color level used when rendering to a stream
+ *
+ * @param stream - Output stream to inspect (defaults to process.stdout)
+ * @returns Forced color level if set, otherwise the detected level of the stream
+ */
+export const getColorLevel = (stream?: OutputStream): ColorLevel => {
+  return forcedColorLevel ?? detectColorLevel(stream)
+}
+
+/**
+ * Lists the predefined color names
+ *
+ * @returns Names accepted as text and background colors
+ */
+export const getNamedColors = (): NamedColor[] => {
+  return Object.keys(NAMED_COLORS) as NamedColor[]
+}
+
+/**
+ * Enables or disables strict color parsing
+ *
+ * Invalid colors are ignored by default: unknown text color names fall back to
+ * cyan and other invalid colors produce no escape sequence. In strict mode they
+ * throw a descriptive error instead, both when components are created and when
+ * color codes are generated. Out-of-range components are clamped unless strict.
+ *
+ * @param strict - Whether invalid colors throw
+ */
+export const setStrictColors = (strict: boolean): void => {
+  strictColors = strict
+}
+
+/**
+ * Reports whether strict color parsing is enabled
+ *
+ * @returns True when invalid colors throw instead of falling back
+ */
+export const getStrictColors = (): boolean => {
+  return strictColors
+}
+
+/**
+ * Parses a color into a palette index or RGB components
+ *
+ * Accepts the predefined terminal color names, CSS color names (case-insensitive),
+ * hex codes (#RGB, #RGBA, #RRGGBB, #RRGGBBAA), rgb()/rgba(), hsl()/hsla(),
+ * ansi256(n), "r,g,b" strings, [r, g, b] tuples and { r, g, b } objects.
+ * Alpha channels are accepted and ignored.
+ *
+ * @param color - Color specification in any supported format
+ * @returns Parsed color
+ * @throws {Error} When the color is invalid or a component is out of range
+ */
+export const parseColor = (color: ColorInput): ParsedColor => {
+  return parseColorValue(color, true)
+}
 
 /**
  * Generates ANSI color codes for terminal text coloring
  *
- * Supports multiple color formats including:
- * - Named colors (e.g., 'red', 'blue', 'cyan')
- * - Hex color codes (e.g., '#FF0000', '#00FF00')
- * - RGB values (e.g., '255,0,0', '0,255,0')
+ * Supports every format accepted by parseColor, for example:
+ * - Named colors (e.g., 'red', 'brightBlue', 'crimson')
+ * - Hex color codes (e.g., '#F00', '#FF0000', '#FF000080')
+ * - Color functions (e.g., 'rgb(255 0 0)', 'hsl(120, 100%, 50%)', 'ansi256(208)')
+ * - RGB values (e.g., '255,0,0', [255, 0, 0], { r: 255, g: 0, b: 0 })
+ *
+ * Colors are downsampled to the nearest palette entry supported by the color level.
  *
  * @param color - Color specification in any supported format
- * @returns ANSI escape sequence for the specified color, or default cyan if invalid
+ * @param level - Color level to emit (defaults to the level of process.stdout)
+ * @returns ANSI escape sequence for the specified color, default cyan for unknown
+ * color names, or empty string for other invalid colors
+ * @throws {Error} When the color is invalid and strict mode is enabled
  */
-export const getColorCode = (color: string): string => {
-  if (color.startsWith('#')) {
-    return hexToAnsi(color)
+export const getColorCode = (color: ColorInput, level: ColorLevel = getColorLevel()): string => {
+  const parsed = resolveColor(color)
+  if (parsed) {
+    return generateColor(parsed, false, level)
   }
-  if (color.includes(',')) {
-    const rgbValues = parseRGB(color)
-    if (!rgbValues) {
-      return ''
-    }
-    return rgbToAnsi(rgbValues.r, rgbValues.g, rgbValues.b)
-  }
-  return getNamedColor(color) || getNamedColor('cyan')
+  const isName = typeof color === 'string' && /^[a-z]*$/i.test(color.trim())
+  return isName ? generateAnsi256(NAMED_COLORS.cyan, false, level) : ''
 }
 
 /**
  * Generates ANSI background color codes for terminal text
  *
- * Supports the same color formats as getColorCode including named colors,
- * hex codes, and RGB values. Returns empty string for invalid colors.
+ * Supports the same color formats as getColorCode. Returns empty string for
+ * invalid colors.
  *
  * @param color - Color specification in any supported format
+ * @param level - Color level to emit (defaults to the level of process.stdout)
  * @returns ANSI escape sequence for background color, or empty string if invalid
+ * @throws {Error} When the color is invalid and strict mode is enabled
  */
-export const getBackgroundColorCode = (color: string): string => {
-  if (color.startsWith('#')) {
-    return hexToAnsiBackground(color)
-  }
-  if (color.includes(',')) {
-    const rgbValues = parseRGB(color)
-    if (!rgbValues) {
-      return ''
-    }
-    return rgbToAnsiBackground(rgbValues.r, rgbValues.g, rgbValues.b)
-  }
-  return getNamedBackgroundColor(color) || ''
+export const getBackgroundColorCode = (
+  color: ColorInput,
+  level: ColorLevel = getColorLevel()
+): string => {
+  const parsed = resolveColor(color, NAMED_BACKGROUND_COLORS)
+  return parsed ? generateColor(parsed, true, level) : ''
 }
 
 /**
  * Generates ANSI text style codes for terminal formatting
  *
  * Combines multiple style options into a single ANSI escape sequence.
- * Supported styles include bold, italic, and underline text formatting.
+ * Supported styles are bold, dim, italic, underline, double and curly underline,
+ * blink, inverse, hidden, strikethrough and overline.
+ * Styles are omitted when the color level is 'none'.
  *
  * @param styles - Object containing boolean flags for desired text styles
+ * @param level - Color level to emit (defaults to the level of process.stdout)
  * @returns Combined ANSI escape sequence for all requested styles
  */
-export const getStyleCode = (styles: {
-  bold?: boolean
-  italic?: boolean
-  underline?: boolean
-}): string => {
-  const styleCodes = []
-  if (styles.bold) {
-    styleCodes.push('\x1b[1m')
+export const getStyleCode = (
+  styles: TextStyleOptions,
+  level: ColorLevel = getColorLevel()
+): string => {
+  if (level === 'none') {
+    return ''
+  }
+  return Object.entries(STYLE_CODES)
+    .filter(([name]) => styles[name as keyof TextStyleOptions])
+    .map(([, code]) => code)
+    .join('')
+}
+
+/**
+ * Generates ANSI underline color codes
+ *
+ * Supports the same color formats as getColorCode. Underline colors have no
+ * 16-color variant, so 16-color terminals receive the nearest standard palette
+ * entry through the 256-color sequence.
+ *
+ * @param color - Color specification in any supported format
+ * @param level - Color level to emit (defaults to the level of process.stdout)
+ * @returns ANSI escape sequence for the underline color, or empty string if invalid
+ * @throws {Error} When the color is invalid and strict mode is enabled
+ */
+export const getUnderlineColorCode = (
+  color: ColorInput,
+  level: ColorLevel = getColorLevel()
+): string => {
+  const parsed = resolveColor(color)
+  if (!parsed || level === 'none') {
+    return ''
+  }
+  if (parsed.kind === 'rgb' && level === 'truecolor') {
+    const { r, g, b } = parsed.rgb
+    return `\x1b[58;2;${r};${g};${b}m`
   }
-  if (styles.italic) {
-    styleCodes.push('\x1b[3m')
+  const index = parsed.kind === 'palette' ? parsed.index : rgbToAnsi256(parsed.rgb)
+  const paletteIndex =
+    level === 'ansi16' && index >= 16 ? nearestAnsi16(ansi256ToRGB(index)) : index
+  return `\x1b[58;5;${paletteIndex}m`
+}
+
+/**
+ * Validates the colors of a component in strict mode
+ *
+ * Empty and undefined colors are skipped. Does nothing unless strict mode is enabled.
+ *
+ * @param component - Component name used in the error message
+ * @param colors - Colors keyed by option name
+ * @throws {Error} When a color is invalid and strict mode is enabled
+ */
+export const validateColors = (
+  component: string,
+  colors: Record<string, ColorInput | undefined>
+): void => {
+  if (!strictColors) {
+    return
+  }
+  Object.entries(colors).forEach(([name, color]) => {
+    if (color === undefined || color === '') {
+      return
+    }
+    try {
+      parseColorValue(color, true)
+    } catch (error) {
+      throw new Error(`${component} ${name} is invalid. ${(error as Error).message}`)
+    }
+  })
+}
+
+/**
+ * Generates the ANSI reset sequence that clears all colors and styles
+ *
+ * @param level - Color level to emit (defaults to the level of process.stdout)
+ * @returns ANSI reset sequence, or empty string when the color level is 'none'
+ */
+export const getResetCode = (level: ColorLevel = getColorLevel()): string => {
+  return level === 'none' ? '' : '\x1b[0m'
+}
+
+/**
+ * Converts a color to RGB components
+ *
+ * Palette colors, such as the predefined names and ansi256(n), resolve to the
+ * default xterm palette values.
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @returns RGB color components (0-255)
+ * @throws {Error} When the color is invalid
+ */
+export const toRGB = (color: ColorInput): RGBColor => {
+  const parsed = parseColor(color)
+  return parsed.kind === 'palette' ? { ...ansi256ToRGB(parsed.index) } : parsed.rgb
+}
+
+/**
+ * Converts a color to HSL components
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @returns Hue in degrees (0-360), saturation and lightness in percent (0-100)
+ * @throws {Error} When the color is invalid
+ */
+export const toHSL = (color: ColorInput): HSLColor => {
+  return rgbToHSL(toRGB(color))
+}
+
+/**
+ * Converts a color to a hex code
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @returns Lower case hex code in format #rrggbb
+ * @throws {Error} When the color is invalid
+ */
+export const toHex = (color: ColorInput): string => {
+  return rgbToHex(toRGB(color))
+}
+
+/**
+ * Increases the lightness of a color
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @param amount - Percentage points added to the lightness, e.g. 10 turns 50% into 60%
+ * @returns Lightened color as a hex code
+ * @throws {Error} When the color is invalid or the amount is not a finite number
+ */
+export const lighten = (color: ColorInput, amount: number): string => {
+  return adjustHSL('lighten', color, 0, amount)
+}
+
+/**
+ * Decreases the lightness of a color
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @param amount - Percentage points removed from the lightness
+ * @returns Darkened color as a hex code
+ * @throws {Error} When the color is invalid or the amount is not a finite number
+ */
+export const darken = (color: ColorInput, amount: number): string => {
+  return adjustHSL('darken', color, 0, -amount)
+}
+
+/**
+ * Increases the saturation of a color, or decreases it for negative amounts
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @param amount - Percentage points added to the saturation
+ * @returns Saturated color as a hex code
+ * @throws {Error} When the color is invalid or the amount is not a finite number
+ */
+export const saturate = (color: ColorInput, amount: number): string => {
+  return adjustHSL('saturate', color, amount, 0)
+}
+
+/**
+ * Mixes two colors in RGB space
+ *
+ * @param color - First color in any format accepted by parseColor
+ * @param other - Second color in any format accepted by parseColor
+ * @param weight - Share of the second color, from 0 (first color) to 1 (second color)
+ * @returns Mixed color as a hex code
+ * @throws {Error} When a color is invalid or the weight is outside 0-1
+ */
+export const mix = (color: ColorInput, other: ColorInput, weight: number = 0.5): string => {
+  if (!Number.isFinite(weight) || weight < 0 || weight > 1) {
+    throw new Error('Color mix weight must be a number between 0 and 1')
   }
-  if (styles.underline) {
-    styleCodes.push('\x1b[4m')
+  const from = toRGB(color)
+  const to = toRGB(other)
+  return rgbToHex({
+    r: from.r + (to.r - from.r) * weight,
+    g: from.g + (to.g - from.g) * weight,
+    b: from.b + (to.b - from.b) * weight
+  })
+}
+
+/**
+ * Inverts each RGB component of a color
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @returns Inverted color as a hex code
+ * @throws {Error} When the color is invalid
+ */
+export const invert = (color: ColorInput): string => {
+  const { r, g, b } = toRGB(color)
+  return rgbToHex({ r: 255 - r, g: 255 - g, b: 255 - b })
+}
+
+/**
+ * Calculates the relative luminance of a color as defined by WCAG 2
+ *
+ * @param color - Color specification in any format accepted by parseColor
+ * @returns Luminance from 0 (black) to 1 (white)
+ * @throws {Error} When the color is invalid
+ */
+export const getLuminance = (color: ColorInput): number => {
+  const { r, g, b } = toRGB(color)
+  const linear = (value: number): number => {
+    const channel = value / 255
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
   }
-  return styleCodes.join('')
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b)
+}
+
+/**
+ * Calculates the WCAG 2 contrast ratio between two colors
+ *
+ * The order of the colors does not matter. WCAG AA requires a ratio of at least
+ * 4.5 for normal text and 3 for large text, AAA requires 7 and 4.5.
+ *
+ * @param foreground - Text color in any format accepted by parseColor
+ * @param background - Background color in any format accepted by parseColor
+ * @returns Contrast ratio from 1 (no contrast) to 21 (black on white)
+ * @throws {Error} When a color is invalid
+ */
+export const getContrastRatio = (foreground: ColorInput, background: ColorInput): number => {
+  const luminances = [getLuminance(foreground), getLuminance(background)]
+  return (Math.max(...luminances) + 0.05) / (Math.min(...luminances) + 0.05)
 }
 
 /**
- * Retrieves ANSI color code for a named color
+ * Picks the candidate with the highest contrast against a background
  *
- * @param color - Name of the color to look up
- * @returns ANSI escape sequence for the named color, or empty string if not found
+ * @param background - Background color in any format accepted by parseColor
+ * @param candidates - Text colors to choose from (defaults to black and white)
+ * @returns Most readable candidate, the first one on ties
+ * @throws {Error} When a color is invalid or no candidates are given
  */
-function getNamedColor(color: string): string {
-  return NAMED_COLORS[color as keyof typeof NAMED_COLORS] || ''
+export const getReadableColor = (
+  background: ColorInput,
+  candidates: readonly ColorInput[] = READABLE_COLORS
+): ColorInput => {
+  if (candidates.length === 0) {
+    throw new Error('getReadableColor requires at least one candidate color')
+  }
+  const ratios = candidates.map(candidate => getContrastRatio(candidate, background))
+  return candidates[ratios.indexOf(Math.max(...ratios))]
 }
 
 /**
- * Retrieves ANSI background color code for a named color
+ * Resolves the text color of a component
+ *
+ * Explicit colors are kept. Without one, a readable color is picked for the
+ * background color, falling back to the default color when there is no valid
+ * background color.
  *
- * @param color - Name of the background color to look up
- * @returns ANSI escape sequence for the background color, or empty string if not found
+ * @param color - Color set by the user, if any
+ * @param backgroundColor - Background color of the component, empty for none
+ * @param fallback - Default text color of the component
+ * @returns Text color to render with
  */
-function getNamedBackgroundColor(color: string): string {
-  return NAMED_BACKGROUND_COLORS[color as keyof typeof NAMED_BACKGROUND_COLORS] || ''
+export const resolveTextColor = (
+  color: ColorOption,
+  backgroundColor: ColorInput,
+  fallback: ColorOption
+): ColorOption => {
+  if (color !== undefined || backgroundColor === '') {
+    return color ?? fallback
+  }
+  try {
+    return getReadableColor(backgroundColor)
+  } catch {
+    return fallback
+  }
 }
 
 /**
- * Parses RGB color string into numeric components
+ * Parses a color for code generation, honoring strict mode
  *
- * @param color - RGB color string in format "r,g,b" (e.g., "255,0,0")
- * @returns Object with r, g, b properties, or null if parsing fails
+ * @param color - Color specification in any supported format
+ * @param names - Palette indices of the predefined color names
+ * @returns Parsed color, or null when the color is empty or invalid
+ * @throws {Error} When the color is invalid and strict mode is enabled
  */
-function parseRGB(color: string): { r: number; g: number; b: number } | null {
-  const [r, g, b] = color.split(',').map(Number)
-  if (isNaN(r) || isNaN(g) || isNaN(b)) {
+function resolveColor(
+  color: ColorInput,
+  names: Readonly<Record<NamedColor, number>> = NAMED_COLORS
+): ParsedColor | null {
+  if (color === '') {
+    return null
+  }
+  try {
+    return parseColorValue(color, strictColors, names)
+  } catch (error) {
+    if (strictColors) {
+      throw error
+    }
     return null
   }
-  return { r, g, b }
+}
+
+/**
+ * Parses a color in any supported format
+ *
+ * @param color - Color specification in any supported format
+ * @param strict - Whether out-of-range components throw instead of being clamped
+ * @param names - Palette indices of the predefined color names
+ * @returns Parsed color
+ * @throws {Error} When the color cannot be parsed
+ */
+function parseColorValue(
+  color: ColorInput,
+  strict: boolean,
+  names: Readonly<Record<NamedColor, number>> = NAMED_COLORS
+): ParsedColor {
+  if (typeof color !== 'string') {
+    const components = 'r' in color ? [color.r, color.g, color.b] : color
+    return parseRGBComponents(color, components, strict)
+  }
+  const value = color.trim()
+  if (Object.hasOwn(names, value)) {
+    return { kind: 'palette', index: names[value as NamedColor] }
+  }
+  const name = value.toLowerCase()
+  if (Object.hasOwn(CSS_COLORS, name)) {
+    return parseHexColor(CSS_COLORS[name])
+  }
+  if (value.startsWith('#')) {
+    return parseHexColor(value)
+  }
+  const match = /^(rgba?|hsla?|ansi256)\((.*)\)$/i.exec(value)
+  if (match) {
+    return parseColorFunction(color, match[1].toLowerCase(), match[2], strict)
+  }
+  if (value.includes(',')) {
+    return parseRGBComponents(color, value.split(',').map(parseNumber), strict)
+  }
+  throw colorError(color, /^[a-z]+$/i.test(value) ? 'unknown color name' : 'unknown color format')
+}
+
+/**
+ * Parses a hex color code, ignoring its alpha digits
+ *
+ * @param color - Hex color code in format #RGB, #RGBA, #RRGGBB or #RRGGBBAA
+ * @returns Parsed RGB color
+ * @throws {Error} When the code has invalid digits or an invalid length
+ */
+function parseHexColor(color: string): ParsedColor {
+  const digits = color.trim().slice(1)
+  if (!/^[0-9a-f]*$/i.test(digits)) {
+    throw colorError(color, 'hex colors may only contain the digits 0-9 and a-f')
+  }
+  if (![3, 4, 6, 8].includes(digits.length)) {
+    throw colorError(color, 'hex colors must have 3, 4, 6 or 8 digits')
+  }
+  const hex = digits.length <= 4 ? digits.replace(/./g, '$&$&') : digits
+  return {
+    kind: 'rgb',
+    rgb: {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16)
+    }
+  }
+}
+
+/**
+ * Parses an rgb(), rgba(), hsl(), hsla() or ansi256() color function
+ *
+ * Arguments may be separated by commas or spaces, with an optional alpha value
+ * after a slash or as fourth argument.
+ *
+ * @param color - Full color specification, used in error messages
+ * @param name - Lower case function name
+ * @param body - Text between the parentheses
+ * @param strict - Whether out-of-range values throw instead of being clamped
+ * @returns Parsed color
+ * @throws {Error} When the arguments are invalid
+ */
+function parseColorFunction(
+  color: string,
+  name: string,
+  body: string,
+  strict: boolean
+): ParsedColor {
+  const args = body.split(/[\s,/]+/).filter(Boolean)
+  if (name === 'ansi256') {
+    return parseAnsi256(color, args, strict)
+  }
+  if (args.length !== 3 && args.length !== 4) {
+    throw colorError(color, `${name}() expects 3 values and an optional alpha`)
+  }
+  if (args.length === 4 && isNaN(parseComponent(args[3], 0.01))) {
+    throw colorError(color, 'alpha is not a number')
+  }
+  if (name.startsWith('rgb')) {
+    const components = args.slice(0, 3).map(arg => parseComponent(arg, 2.55))
+    return parseRGBComponents(color, components, strict)
+  }
+  return parseHSL(color, args, strict)
+}
+
+/**
+ * Parses the arguments of an hsl() or hsla() color function
+ *
+ * @param color - Full color specification, used in error messages
+ * @param args - Hue (degrees, optional deg unit), saturation and lightness (percentages)
+ * @param strict - Whether out-of-range values throw instead of being clamped
+ * @returns Parsed RGB color
+ * @throws {Error} When a value is not a number, or out of range in strict mode
+ */
+function parseHSL(color: string, args: string[], strict: boolean): ParsedColor {
+  const hue = parseNumber(args[0].replace(/deg$/i, ''))
+  const [saturation, lightness] = args.slice(1, 3).map(arg => parseNumber(arg.replace(/%$/, '')))
+  if (isNaN(hue)) {
+    throw colorError(color, 'hue is not a number')
+  }
+  const percentages = { saturation, lightness }
+  Object.entries(percentages).forEach(([part, value]) => {
+    if (isNaN(value)) {
+      throw colorError(color, `${part} is not a number`)
+    }
+    if (strict && (value < 0 || value > 100)) {
+      throw colorError(color, `${part} ${value}% is out of range 0-100%`)
+    }
+  })
+  const clampPercent = (value: number): number => Math.max(0, Math.min(100, value)) / 100
+  return {
+    kind: 'rgb',
+    rgb: hslToRGB(((hue % 360) + 360) % 360, clampPercent(saturation), clampPercent(lightness))
+  }
+}
+
+/**
+ * Parses the argument of an ansi256() color function
+ *
+ * @param color - Full color specification, used in error messages
+ * @param args - Palette index as only argument
+ * @param strict - Whether out-of-range indices throw instead of being clamped
+ * @returns Parsed palette color
+ * @throws {Error} When the index is not a number, or not an integer in 0-255 in strict mode
+ */
+function parseAnsi256(color: string, args: string[], strict: boolean): ParsedColor {
+  const index = args.length === 1 ? parseNumber(args[0]) : NaN
+  const isValid = Number.isInteger(index) && index >= 0 && index <= 255
+  if (isNaN(index) || (strict && !isValid)) {
+    throw colorError(color, 'ansi256() index must be an integer between 0 and 255')
+  }
+  return { kind: 'palette', index: clampRGB(index) }
+}
+
+/**
+ * Validates RGB components and builds a parsed color
+ *
+ * @param color - Full color specification, used in error messages
+ * @param components - Red, green and blue components
+ * @param strict - Whether out-of-range components throw instead of being clamped
+ * @returns Parsed RGB color
+ * @throws {Error} When there are not 3 numeric components, or one is out of range in strict mode
+ */
+function parseRGBComponents(
+  color: ColorInput,
+  components: readonly number[],
+  strict: boolean
+): ParsedColor {
+  if (components.length !== 3) {
+    throw colorError(color, `expected 3 RGB components but got ${components.length}`)
+  }
+  components.forEach((value, index) => {
+    const channel = RGB_CHANNELS[index]
+    if (typeof value !== 'number' || isNaN(value)) {
+      throw colorError(color, `${channel} component is not a number`)
+    }
+    if (strict && (value < 0 || value > 255)) {
+      throw colorError(color, `${channel} component ${value} is out of range 0-255`)
+    }
+  })
+  const [r, g, b] = components.map(clampRGB)
+  return { kind: 'rgb', rgb: { r, g, b } }
+}
+
+/**
+ * Parses a number, or a percentage scaled to the component range
+ *
+ * @param value - Number or percentage, e.g. '128' or '50%'
+ * @param percentScale - Factor applied to percentages
+ * @returns Parsed number, or NaN if invalid
+ */
+function parseComponent(value: string, percentScale: number): number {
+  return value.endsWith('%') ? parseNumber(value.slice(0, -1)) * percentScale : parseNumber(value)
+}
+
+/**
+ * Parses a number, treating blank text as invalid
+ *
+ * @param value - Text to parse
+ * @returns Parsed number, or NaN if invalid
+ */
+function parseNumber(value: string): number {
+  return value.trim() === '' ? NaN : Number(value)
+}
+
+/**
+ * Creates a descriptive error for an invalid color
+ *
+ * @param color - Invalid color specification
+ * @param reason - Why the color is invalid
+ * @returns Error naming the color and the reason
+ */
+function colorError(color: ColorInput, reason: string): Error {
+  return new Error(`Invalid color ${JSON.stringify(color)}: ${reason}`)
+}
+
+/**
+ * Shifts the saturation and lightness of a color
+ *
+ * @param operation - Name of the calling operation, used in error messages
+ * @param color - Color specification in any format accepted by parseColor
+ * @param saturation - Percentage points added to the saturation
+ * @param lightness - Percentage points added to the lightness
+ * @returns Adjusted color as a hex code
+ * @throws {Error} When the color is invalid or an amount is not a finite number
+ */
+function adjustHSL(
+  operation: string,
+  color: ColorInput,
+  saturation: number,
+  lightness: number
+): string {
+  if (!Number.isFinite(saturation) || !Number.isFinite(lightness)) {
+    throw new Error(`Color ${operation} amount must be a finite number`)
+  }
+  const hsl = toHSL(color)
+  const clampPercent = (value: number): number => Math.max(0, Math.min(100, value)) / 100
+  return rgbToHex(
+    hslToRGB(hsl.h, clampPercent(hsl.s + saturation), clampPercent(hsl.l + lightness))
+  )
+}
+
+/**
+ * Converts RGB components to HSL values
+ *
+ * @param rgb - RGB color components (0-255)
+ * @returns Hue in degrees (0-360), saturation and lightness in percent (0-100)
+ */
+function rgbToHSL(rgb: RGBColor): HSLColor {
+  const [r, g, b] = [rgb.r / 255, rgb.g / 255, rgb.b / 255]
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const delta = max - min
+  const l = (max + min) / 2
+  if (delta === 0) {
+    return { h: 0, s: 0, l: l * 100 }
+  }
+  const s = delta / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === r) {
+    h = ((g - b) / delta + 6) % 6
+  } else if (max === g) {
+    h = (b - r) / delta + 2
+  } else {
+    h = (r - g) / delta + 4
+  }
+  return { h: h * 60, s: s * 100, l: l * 100 }
+}
+
+/**
+ * Converts RGB components to a hex code
+ *
+ * @param rgb - RGB color components, rounded and clamped to 0-255
+ * @returns Lower case hex code in format #rrggbb
+ */
+function rgbToHex(rgb: RGBColor): string {
+  const hex = [rgb.r, rgb.g, rgb.b].map(value => clampRGB(value).toString(16).padStart(2, '0'))
+  return `#${hex.join('')}`
+}
+
+/**
+ * Converts HSL values to RGB components
+ *
+ * @param hue - Hue in degrees (0-360)
+ * @param saturation - Saturation (0-1)
+ * @param lightness - Lightness (0-1)
+ * @returns RGB color components (0-255)
+ */
+function hslToRGB(hue: number, saturation: number, lightness: number): RGBColor {
+  const chroma = saturation * Math.min(lightness, 1 - lightness)
+  const channel = (offset: number): number => {
+    const k = (offset + hue / 30) % 12
+    return clampRGB(255 * (lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))))
+  }
+  return { r: channel(0), g: channel(8), b: channel(4) }
+}
+
+/**
+ * Generates ANSI escape sequence for a parsed color
+ *
+ * @param parsed - Parsed color
+ * @param isBackground - Whether to generate background color code
+ * @param level - Color level to emit
+ * @returns ANSI escape sequence, or empty string when the color level is 'none'
+ */
+function generateColor(parsed: ParsedColor, isBackground: boolean, level: ColorLevel): string {
+  return parsed.kind === 'palette'
+    ? generateAnsi256(parsed.index, isBackground, level)
+    : generateRGBAnsi(parsed.rgb, isBackground, level)
 }
 
 /**
@@ -186,74 +851,128 @@ function clampRGB(value: number): number {
 }
 
 /**
- * Generates ANSI escape sequence for RGB colors
+ * Generates ANSI escape sequence for a standard 16-color palette index
  *
- * @param r - Red component (0-255)
- * @param g - Green component (0-255)
- * @param b - Blue component (0-255)
+ * @param index - Palette index (0-7 standard, 8-15 bright)
  * @param isBackground - Whether to generate background color code
- * @returns ANSI escape sequence for the specified RGB color
+ * @returns ANSI escape sequence using the 30-37/90-97 (or 40-47/100-107) codes
  */
-function generateRGBAnsi(r: number, g: number, b: number, isBackground: boolean): string {
-  const clampedR = clampRGB(r)
-  const clampedG = clampRGB(g)
-  const clampedB = clampRGB(b)
-  const prefix = isBackground ? '\x1b[48;2;' : '\x1b[38;2;'
-  return `${prefix}${clampedR};${clampedG};${clampedB}m`
+function generateAnsi16(index: number, isBackground: boolean): string {
+  const base = index < 8 ? 30 + index : 90 + index - 8
+  return `\x1b[${isBackground ? base + 10 : base}m`
 }
 
 /**
- * Converts hex color code to ANSI escape sequence
+ * Generates ANSI escape sequence for a 256-color palette index
  *
- * @param hex - Hex color code in format #RRGGBB
- * @returns ANSI escape sequence for the hex color, or empty string if invalid
+ * Indices 0-15 always use the standard 16-color codes. Higher indices are
+ * downsampled to the nearest standard color when only 16 colors are supported.
+ *
+ * @param index - Palette index (0-255)
+ * @param isBackground - Whether to generate background color code
+ * @param level - Color level to emit
+ * @returns ANSI escape sequence, or empty string when the color level is 'none'
  */
-function hexToAnsi(hex: string): string {
-  if (!/^#[0-9A-Fa-f]{6}$/.test(hex)) {
+function generateAnsi256(index: number, isBackground: boolean, level: ColorLevel): string {
+  if (level === 'none') {
     return ''
   }
-  const r = parseInt(hex.slice(1, 3), 16)
-  const g = parseInt(hex.slice(3, 5), 16)
-  const b = parseInt(hex.slice(5, 7), 16)
-  return generateRGBAnsi(r, g, b, false)
+  if (index < 16) {
+    return generateAnsi16(index, isBackground)
+  }
+  if (level === 'ansi16') {
+    return generateAnsi16(nearestAnsi16(ansi256ToRGB(index)), isBackground)
+  }
+  const prefix = isBackground ? '\x1b[48;5;' : '\x1b[38;5;'
+  return `${prefix}${index}m`
 }
 
 /**
- * Converts hex color code to ANSI background color escape sequence
+ * Generates ANSI escape sequence for RGB colors
+ *
+ * Emits 24-bit sequences on truecolor terminals and downsamples to the
+ * nearest 256-color or 16-color palette entry on less capable terminals.
  *
- * @param hex - Hex color code in format #RRGGBB
- * @returns ANSI background color escape sequence, or empty string if invalid
+ * @param color - RGB color components (0-255)
+ * @param isBackground - Whether to generate background color code
+ * @param level - Color level to emit
+ * @returns ANSI escape sequence for the specified RGB color
  */
-function hexToAnsiBackground(hex: string): string {
-  if (!/^#[0-9A-Fa-f]{6}$/.test(hex)) {
+function generateRGBAnsi(color: RGBColor, isBackground: boolean, level: ColorLevel): string {
+  const rgb = { r: clampRGB(color.r), g: clampRGB(color.g), b: clampRGB(color.b) }
+  if (level === 'none') {
     return ''
   }
-  const r = parseInt(hex.slice(1, 3), 16)
-  const g = parseInt(hex.slice(3, 5), 16)
-  const b = parseInt(hex.slice(5, 7), 16)
-  return generateRGBAnsi(r, g, b, true)
+  if (level === 'ansi16') {
+    return generateAnsi16(nearestAnsi16(rgb), isBackground)
+  }
+  if (level === 'ansi256') {
+    return generateAnsi256(rgbToAnsi256(rgb), isBackground, level)
+  }
+  const prefix = isBackground ? '\x1b[48;2;' : '\x1b[38;2;'
+  return `${prefix}${rgb.r};${rgb.g};${rgb.b}m`
 }
 
 /**
- * Converts RGB values to ANSI color escape sequence
+ * Converts RGB values to the nearest 256-color palette index
  *
- * @param r - Red component (0-255)
- * @param g - Green component (0-255)
- * @param b - Blue component (0-255)
- * @returns ANSI escape sequence for the specified RGB color
+ * Uses the 24-step grayscale ramp for neutral colors and the 6x6x6 color cube otherwise.
+ *
+ * @param rgb - RGB color components (0-255)
+ * @returns Palette index between 16 and 255
  */
-function rgbToAnsi(r: number, g: number, b: number): string {
-  return generateRGBAnsi(r, g, b, false)
+function rgbToAnsi256(rgb: RGBColor): number {
+  const { r, g, b } = rgb
+  if (r === g && g === b) {
+    if (r < 8) {
+      return 16
+    }
+    if (r > 248) {
+      return 231
+    }
+    return Math.round(((r - 8) / 247) * 24) + 232
+  }
+  const toCube = (value: number): number => Math.round((value / 255) * 5)
+  return 16 + 36 * toCube(r) + 6 * toCube(g) + toCube(b)
 }
 
 /**
- * Converts RGB values to ANSI background color escape sequence
+ * Converts a 256-color palette index to its RGB values
  *
- * @param r - Red component (0-255)
- * @param g - Green component (0-255)
- * @param b - Blue component (0-255)
- * @returns ANSI background color escape sequence for the specified RGB color
+ * @param index - Palette index (0-255)
+ * @returns RGB color components of the palette entry
  */
-function rgbToAnsiBackground(r: number, g: number, b: number): string {
-  return generateRGBAnsi(r, g, b, true)
+function ansi256ToRGB(index: number): RGBColor {
+  if (index < 16) {
+    return ANSI16_PALETTE[index]
+  }
+  if (index >= 232) {
+    const gray = 8 + (index - 232) * 10
+    return { r: gray, g: gray, b: gray }
+  }
+  const cube = index - 16
+  return {
+    r: CUBE_LEVELS[Math.floor(cube / 36)],
+    g: CUBE_LEVELS[Math.floor(cube / 6) % 6],
+    b: CUBE_LEVELS[cube % 6]
+  }
+}
+
+/**
+ * Finds the standard 16-color palette entry closest to an RGB color
+ *
+ * @param rgb - RGB color components (0-255)
+ * @returns Palette index (0-15) with the smallest euclidean distance
+ */
+function nearestAnsi16(rgb: RGBColor): number {
+  let nearestIndex = 0
+  let nearestDistance = Infinity
+  ANSI16_PALETTE.forEach((entry, index) => {
+    const distance = (entry.r - rgb.r) ** 2 + (entry.g - rgb.g) ** 2 + (entry.b - rgb.b) ** 2
+    if (distance < nearestDistance) {
+      nearestDistance = distance
+      nearestIndex = index
+    }
+  })
+  return nearestIndex
 }
@@ -0,0 +1,193 @@
+import type {
+  ByteFormatOptions,
+  ByteStandard,
+  FormatUnit,
+  UnitFormatOptions
+} from '@interfaces/Format'
+
+/**
+ * Locale used for number formatting when none is specified
+ */
+const DEFAULT_LOCALE = 'en-US'
+
+/**
+ * Unit symbols for each byte standard, from smallest to largest
+ */
+const BYTE_UNITS: Record<ByteStandard, readonly string[]> = {
+  si: ['B', 'kB', 'MB', 'GB', 'TB', 'PB', 'EB'],
+  iec: ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB', 'EiB']
+}
+
+/**
+ * Unit symbols for each bit standard, from smallest to largest
+ */
+const BIT_UNITS: Record<ByteStandard, readonly string[]> = {
+  si: ['b', 'kb', 'Mb', 'Gb', 'Tb', 'Pb', 'Eb'],
+  iec: ['b', 'Kib', 'Mib', 'Gib', 'Tib', 'Pib', 'Eib']
+}
+
+/**
+ * Formats a duration in milliseconds as a short human-readable string
+ *
+ * Uses seconds with one decimal below a minute once rounded (e.g. '12.4s'), minutes and
+ * seconds below an hour (e.g. '3m 05s'), hours and minutes below a day
+ * (e.g. '1h 02m'), and days and hours above (e.g. '2d 03h').
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Formatted duration, or '--' if the duration is unknown or invalid
+ */
+export const formatDuration = (ms: number): string => {
+  if (!Number.isFinite(ms) || ms < 0) {
+    return '--'
+  }
+  const tenths = Math.round(ms / 100)
+  if (tenths < 600) {
+    return `${(tenths / 10).toFixed(1)}s`
+  }
+  const totalSeconds = Math.max(60, Math.floor(ms / 1000))
+  const seconds = Math.floor(totalSeconds) % 60
+  const minutes = Math.floor(totalSeconds / 60) % 60
+  const hours = Math.floor(totalSeconds / 3600) % 24
+  const days = Math.floor(totalSeconds / 86400)
+  if (days > 0) {
+    return `${days}d ${String(hours).padStart(2, '0')}h`
+  }
+  if (hours === 0) {
+    return `${minutes}m ${String(seconds).padStart(2, '0')}s`
+  }
+  return `${hours}h ${String(minutes).padStart(2, '0')}m`
+}
+
+/**
+ * Formats a number with locale-aware grouping and decimal separators
+ *
+ * @param value - Number to format
+ * @param locale - BCP 47 locale tag (defaults to 'en-US')
+ * @param fractionDigits - Exact number of fraction digits (defaults to up to 2)
+ * @returns Formatted number, or '--' if the value is not finite
+ */
+export const formatNumber = (
+  value: number,
+  locale: string = DEFAULT_LOCALE,
+  fractionDigits?: number
+): string => {
+  if (!Number.isFinite(value)) {
+    return '--'
+  }
+  const digits =
+    fractionDigits === undefined
+      ? { maximumFractionDigits: 2 }
+      : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }
+  return new Intl.NumberFormat(locale, digits).format(value)
+}
+
+/**
+ * Formats a byte or bit count with the largest fitting unit
+ *
+ * SI units use base 1000 (e.g. '12.3 MB'), IEC units use base 1024 (e.g. '11.7 MiB').
+ * Values below one kilo-unit are shown without fraction digits (e.g. '512 B'). The unit is
+ * picked from the rounded value, so 999,950 bytes read '1.0 MB' rather than '1,000.0 kB'.
+ *
+ * @param value - Number of bytes, or bits when the bits option is set
+ * @param options - Unit standard, bit mode, locale and fraction digits
+ * @returns Formatted size, or '--' if the value is not finite
+ */
+export const formatBytes = (value: number, options: ByteFormatOptions = {}): string => {
+  if (!Number.isFinite(value)) {
+    return '--'
+  }
+  const standard = options.standard ?? 'si'
+  const units = options.bits ? BIT_UNITS[standard] : BYTE_UNITS[standard]
+  const base = standard === 'iec' ? 1024 : 1000
+  const fractionDigits = options.fractionDigits ?? 1
+  let scaled = Math.abs(value)
+  let index = 0
+  while (roundTo(scaled, index === 0 ? 0 : fractionDigits) >= base && index < units.length - 1) {
+    scaled /= base
+    index++
+  }
+  const digits = index === 0 ? 0 : fractionDigits
+  return `${formatNumber(Math.sign(value) * scaled, options.locale, digits)} ${units[index]}`
+}
+
+/**
+ * Formats a value in the given unit
+ *
+ * @param value - Raw value to format
+ * @param unit - Unit name, custom label or formatter function
+ * @param options - Byte standard and locale
+ * @returns Formatted value, e.g. '1,234', '12.3 MB' or '12 files'
+ */
+export const formatValue = (
+  value: number,
+  unit: FormatUnit,
+  options: UnitFormatOptions = {}
+): string => {
+  if (typeof unit === 'function') {
+    return unit(value)
+  }
+  switch (unit) {
+    case 'items':
+      return formatNumber(value, options.locale)
+    case 'bytes':
+      return formatBytes(value, options)
+    case 'bits':
+      return formatBytes(value, { ...options, bits: true })
+    default:
+      return `${formatNumber(value, options.locale)} ${unit}`
+  }
+}
+
+/**
+ * Formats a rate per second in the given unit
+ *
+ * Plain item rates are shown as a number with one decimal (e.g. '12.5'), all other
+ * units are suffixed with '/s' (e.g. '4.1 MB/s').
+ *
+ * @param rate - Rate in units per second
+ * @param unit - Unit name, custom label or formatter function
+ * @param options - Byte standard and locale
+ * @returns Formatted rate
+ */
+export const formatRate = (
+  rate: number,
+  unit: FormatUnit,
+  options: UnitFormatOptions = {}
+): string => {
+  if (unit === 'items') {
+    return formatNumber(rate, options.locale, 1)
+  }
+  return `${formatValue(rate, unit, options)}/s`
+}
+
+/**
+ * Replaces `{token}` placeholders in a template with their values
+ *
+ * Unknown tokens are replaced with an empty string so optional payload values
+ * can be referenced before they are provided.
+ *
+ * @param template - Template string containing `{token}` placeholders
+ * @param tokens - Token values keyed by placeholder name
+ * @returns Template with all placeholders replaced
+ */
+export const renderTemplate = (
+  template: string,
+  tokens: Record<string, string | number>
+): string => {
+  return template.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    const value = tokens[name]
+    return value === undefined ? '' : String(value)
+  })
+}
+
+/**
+ * Rounds a value to the given number of fraction digits
+ *
+ * @param value - Value to round
+ * @param fractionDigits - Number of fraction digits to keep
+ * @returns Rounded value
+ */
+function roundTo(value: number, fractionDigits: number): number {
+  const factor = 10 ** fractionDigits
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,270 @@
+import { constants } from 'node:os'
+import type { WriteStream } from 'node:tty'
+import type {
+  ActiveComponent,
+  ExitHandlingOptions,
+  ExitHandlingOptionsInternal
+} from '@interfaces/Output'
+
+/**
+ * Write method of a process output stream
+ */
+type StreamWrite = WriteStream['write']
+
+/**
+ * Process streams captured while console interception is active
+ */
+const INTERCEPTED_STREAMS: WriteStream[] = [process.stdout, process.stderr]
+
+/**
+ * Signals stopping all active components before the process exits
+ */
+const EXIT_SIGNALS = ['SIGINT', 'SIGTERM'] as const
+
+/**
+ * Components currently drawing animated output, in start order
+ */
+const activeComponents = new Set<ActiveComponent>()
+
+/**
+ * Original write methods of the intercepted streams
+ */
+const originalWrites = new Map<WriteStream, StreamWrite>()
+
+/**
+ * Incomplete lines written to the intercepted streams, printed once terminated
+ */
+const pendingOutput = new Map<WriteStream, string>()
+
+/**
+ * Whether console and stdout interception has been enabled
+ */
+let interceptionEnabled = false
+
+/**
+ * Current configuration of the process exit handlers
+ */
+let exitHandling: ExitHandlingOptionsInternal = { enabled: true, failText: false }
+
+/**
+ * Whether the process exit handlers are currently installed
+ */
+let exitHandlersInstalled = false
+
+/**
+ * Number of nested component writes currently bypassing interception
+ */
+let bypassDepth = 0
+
+/**
+ * Enables or disables interception of console and process output
+ *
+ * While enabled and any spinner or progress bar is active, everything written to
+ * process.stdout and process.stderr (including console.log, console.warn and
+ * console.error) is printed above the animated output instead of being mixed into it.
+ *
+ * @param enabled - True to intercept process output while components are active
+ */
+export const setConsoleInterception = (enabled: boolean): void => {
+  interceptionEnabled = enabled
+  if (enabled && activeComponents.size > 0) {
+    patchStreams()
+  } else if (!enabled) {
+    restoreStreams()
+  }
+}
+
+/**
+ * Configures the process handlers restoring the terminal on exit
+ *
+ * While any spinner or progress bar is running, including in line-based mode, SIGINT,
+ * SIGTERM, process exit and uncaught exceptions stop all active components and restore
+ * the cursor. Fail lines can be printed for the interrupted components before the
+ * process exits.
+ *
+ * @param options - Whether the handlers are enabled and which fail text to print
+ */
+export const setExitHandling = (options: ExitHandlingOptions): void => {
+  exitHandling = {
+    enabled: options.enabled ?? exitHandling.enabled,
+    failText: options.failText ?? exitHandling.failText
+  }
+  if (exitHandling.enabled && activeComponents.size > 0) {
+    installExitHandlers()
+  } else if (!exitHandling.enabled) {
+    removeExitHandlers()
+  }
+}
+
+/**
+ * Registers a component that started drawing animated output
+ *
+ * @param component - Component with clear, redraw and abort callbacks
+ */
+export const registerActiveComponent = (component: ActiveComponent): void => {
+  activeComponents.add(component)
+  if (interceptionEnabled) {
+    patchStreams()
+  }
+  if (exitHandling.enabled) {
+    installExitHandlers()
+  }
+}
+
+/**
+ * Unregisters a component that stopped drawing animated output
+ *
+ * Restores the intercepted streams once no component is active anymore. Components
+ * unregister after clearing their animated output so flushed lines are not erased.
+ *
+ * @param component - Component previously passed to registerActiveComponent()
+ */
+export const unregisterActiveComponent = (component: ActiveComponent): void => {
+  activeComponents.delete(component)
+  if (activeComponents.size === 0) {
+    restoreStreams()
+    removeExitHandlers()
+  }
+}
+
+/**
+ * Writes component output to a stream without being intercepted
+ *
+ * @param stream - Destination stream
+ * @param chunk - Raw terminal output including ANSI escape sequences
+ */
+export const writeOutput = (stream: { write: (chunk: string) => unknown }, chunk: string): void => {
+  bypassDepth++
+  try {
+    stream.write(chunk)
+  } finally {
+    bypassDepth--
+  }
+}
+
+/**
+ * Replaces the write methods of process.stdout and process.stderr
+ *
+ * Component writes pass through unchanged, all other output is collected
+ * line by line and printed above the active components.
+ */
+function patchStreams(): void {
+  INTERCEPTED_STREAMS.forEach(stream => {
+    if (originalWrites.has(stream)) {
+      return
+    }
+    const original = stream.write
+    originalWrites.set(stream, original)
+    stream.write = function (chunk: unknown, ...rest: unknown[]): boolean {
+      if (bypassDepth > 0) {
+        return Reflect.apply(original, stream, [chunk, ...rest]) as boolean
+      }
+      const text = typeof chunk === 'string' ? chunk : Buffer.from(chunk as Uint8Array).toString()
+      const pending = (pendingOutput.get(stream) ?? '') + text
+      const lineEnd = pending.lastIndexOf('\n')
+      pendingOutput.set(stream, pending.slice(lineEnd + 1))
+      if (lineEnd !== -1) {
+        printAbove(stream, original, pending.slice(0, lineEnd + 1))
+      }
+      const callback = rest.find(arg => typeof arg === 'function') as (() => void) | undefined
+      if (callback) {
+        process.nextTick(callback)
+      }
+      return true
+    } as StreamWrite
+  })
+}
+
+/**
+ * Restores the original write methods and flushes incomplete lines
+ *
+ * Incomplete lines are terminated and printed above any component still drawing,
+ * so the next frame or completion line does not overwrite them.
+ */
+function restoreStreams(): void {
+  originalWrites.forEach((original, stream) => {
+    stream.write = original
+    const pending = pendingOutput.get(stream)
+    if (pending) {
+      printAbove(stream, original, `${pending}\n`)
+    }
+  })
+  originalWrites.clear()
+  pendingOutput.clear()
+}
+
+/**
+ * Prints intercepted output above all active components
+ *
+ * @param stream - Stream the output was written to
+ * @param original - Original write method of the stream
+ * @param text - Complete lines to print
+ */
+function printAbove(stream: WriteStream, original: StreamWrite, text: string): void {
+  bypassDepth++
+  try {
+    activeComponents.forEach(component => component.clear())
+    Reflect.apply(original, stream, [text])
+    activeComponents.forEach(component => component.redraw())
+  } finally {
+    bypassDepth--
+  }
+}
+
+/**
+ * Stops all active components synchronously, printing fail lines when configured
+ */
+function abortActiveComponents(): void {
+  const { failText } = exitHandling
+  Array.from(activeComponents).forEach(component => component.abort(failText))
+}
+
+/**
+ * Stops all active components when the process exits or crashes
+ */
+function handleExit(): void {
+  abortActiveComponents()
+}
+
+/**
+ * Stops all active components on a termination signal and exits the process
+ *
+ * Exits with the conventional 128 + signal number code unless other listeners
+ * for the signal remain, in which case they decide how to proceed.
+ *
+ * @param signal - Received signal name
+ */
+function handleSignal(signal: string): void {
+  abortActiveComponents()
+  removeExitHandlers()
+  if (process.listenerCount(signal) === 0) {
+    const signalNumber = constants.signals[signal as keyof typeof constants.signals]
+    process.exit(128 + signalNumber)
+  }
+}
+
+/**
+ * Installs the process exit, signal and uncaught exception handlers
+ */
+function installExitHandlers(): void {
+  if (exitHandlersInstalled) {
+    return
+  }
+  exitHandlersInstalled = true
+  EXIT_SIGNALS.forEach(signal => process.on(signal, handleSignal))
+  process.on('exit', handleExit)
+  process.on('uncaughtExceptionMonitor', handleExit)
+}
+
+/**
+ * Removes the process exit, signal and uncaught exception handlers
+ */
+function removeExitHandlers(): void {
+  if (!exitHandlersInstalled) {
+    return
+  }
+  exitHandlersInstalled = false
+  EXIT_SIGNALS.forEach(signal => process.off(signal, handleSignal))
+  process.off('exit', handleExit)
+  process.off('uncaughtExceptionMonitor', handleExit)
+}
@@ -0,0 +1,202 @@
+import type {
+  SpinnerAnimationStyle,
+  SpinnerStyleDefinition,
+  SpinnerStyleRegistry
+} from '@interfaces/Spinner'
+
+/**
+ * Frame interval in milliseconds used when a definition does not specify one
+ */
+export const DEFAULT_SPINNER_INTERVAL = 80
+
+/**
+ * Built-in spinner style catalog
+ *
+ * Frames and intervals follow the cli-spinners definitions of the same name
+ * where one exists.
+ */
+const BUILT_IN_STYLES: SpinnerStyleRegistry = {
+  dots: { frames: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'], interval: 80 },
+  dots2: { frames: ['⣾', '⣽', '⣻', '⢿', '⡿', '⣟', '⣯', '⣷'], interval: 80 },
+  dots3: { frames: ['⠋', '⠙', '⠚', '⠞', '⠖', '⠦', '⠴', '⠲', '⠳', '⠓'], interval: 80 },
+  corners: { frames: ['│', '┤', '┘', '└', '┐', '┌', '┴', '┬'], interval: 80 },
+  arrows: { frames: ['←', '↖', '↑', '↗', '→', '↘', '↓', '↙'], interval: 100 },
+  triangles: { frames: ['◢', '◣', '◤', '◥'], interval: 120 },
+  circles: { frames: ['◐', '◑', '◒', '◓'], interval: 120 },
+  stars: { frames: ['★', '☆', '✯', '✰'], interval: 150 },
+  line: { frames: ['-', '\\', '|', '/'], interval: 130 },
+  pipe: { frames: ['┤', '┘', '┴', '└', '├', '┌', '┬', '┐'], interval: 100 },
+  simpleDots: { frames: ['.  ', '.. ', '...', '   '], interval: 400 },
+  star: { frames: ['✶', '✸', '✹', '✺', '✹', '✷'], interval: 70 },
+  growVertical: {
+    frames: ['▁', '▃', '▄', '▅', '▆', '▇', '▆', '▅', '▄', '▃'],
+    interval: 120
+  },
+  growHorizontal: {
+    frames: ['▏', '▎', '▍', '▌', '▋', '▊', '▉', '▊', '▋', '▌', '▍', '▎'],
+    interval: 120
+  },
+  balloon: { frames: [' ', '.', 'o', 'O', '@', '*', ' '], interval: 140 },
+  noise: { frames: ['▓', '▒', '░'], interval: 100 },
+  bounce: { frames: ['⠁', '⠂', '⠄', '⠂'], interval: 120 },
+  arc: { frames: ['◜', '◠', '◝', '◞', '◡', '◟'], interval: 100 },
+  squareCorners: { frames: ['◰', '◳', '◲', '◱'], interval: 180 },
+  toggle: { frames: ['⊶', '⊷'], interval: 250 },
+  hamburger: { frames: ['☱', '☲', '☴'], interval: 100 },
+  point: { frames: ['∙∙∙', '●∙∙', '∙●∙', '∙∙●', '∙∙∙'], interval: 125 },
+  layer: { frames: ['-', '=', '≡'], interval: 150 },
+  bouncingBar: {
+    frames: [
+      '[    ]',
+      '[=   ]',
+      '[==  ]',
+      '[=== ]',
+      '[====]',
+      '[ ===]',
+      '[  ==]',
+      '[   =]',
+      '[    ]',
+      '[   =]',
+      '[  ==]',
+      '[ ===]',
+      '[====]',
+      '[=== ]',
+      '[==  ]',
+      '[=   ]'
+    ],
+    interval: 80
+  },
+  bouncingBall: {
+    frames: [
+      '( ●    )',
+      '(  ●   )',
+      '(   ●  )',
+      '(    ● )',
+      '(     ●)',
+      '(    ● )',
+      '(   ●  )',
+      '(  ●   )',
+      '( ●    )',
+      '(●     )'
+    ],
+    interval: 80
+  },
+  clock: {
+    frames: ['🕛', '🕐', '🕑', '🕒', '🕓', '🕔', '🕕', '🕖', '🕗', '🕘', '🕙', '🕚'],
+    interval: 100
+  },
+  moon: { frames: ['🌑', '🌒', '🌓', '🌔', '🌕', '🌖', '🌗', '🌘'], interval: 80 },
+  earth: { frames: ['🌍', '🌎', '🌏'], interval: 180 },
+  aesthetic: {
+    frames: [
+      '▰▱▱▱▱▱▱',
+      '▰▰▱▱▱▱▱',
+      '▰▰▰▱▱▱▱',
+      '▰▰▰▰▱▱▱',
+      '▰▰▰▰▰▱▱',
+      '▰▰▰▰▰▰▱',
+      '▰▰▰▰▰▰▰',
+      '▰▱▱▱▱▱▱'
+    ],
+    interval: 80
+  }
+}
+
+/**
+ * Style used when no style is selected or the selected style does not exist
+ */
+export const DEFAULT_SPINNER_STYLE: SpinnerStyleDefinition = BUILT_IN_STYLES.dots
+
+/**
+ * Spinner styles available by name, including styles registered at runtime
+ */
+const spinnerStyles = new Map<string, SpinnerStyleDefinition>(Object.entries(BUILT_IN_STYLES))
+
+/**
+ * Checks whether a value is a usable spinner style definition
+ *
+ * @param definition - Value to check
+ * @returns True for objects with non-empty string frames and an optional positive interval
+ */
+export const isSpinnerStyleDefinition = (
+  definition: unknown
+): definition is SpinnerStyleDefinition => {
+  if (typeof definition !== 'object' || definition === null) {
+    return false
+  }
+  const { frames, interval } = definition as Record<string, unknown>
+  const validFrames =
+    Array.isArray(frames) && frames.length > 0 && frames.every(frame => typeof frame === 'string')
+  const validInterval =
+    interval === undefined ||
+    (typeof interval === 'number' && Number.isFinite(interval) && interval > 0)
+  return validFrames && validInterval
+}
+
+/**
+ * Registers a spinner style that can be selected by name with the `style` option
+ *
+ * Registering an existing name replaces its definition. To make the name
+ * available to the `style` option type, augment SpinnerStyleRegistry.
+ *
+ * @param name - Style name
+ * @param definition - Frames and optional interval in cli-spinners format
+ * @throws Error if the name is empty or the definition is invalid
+ */
+export const registerSpinnerStyle = (name: string, definition: SpinnerStyleDefinition): void => {
+  if (!name) {
+    throw new Error('Spinner style name must be a non-empty string')
+  }
+  if (!isSpinnerStyleDefinition(definition)) {
+    throw new Error(
+      `Spinner style "${name}" must have non-empty string frames and a positive interval`
+    )
+  }
+  spinnerStyles.set(name, { frames: [...definition.frames], interval: definition.interval })
+}
+
+/**
+ * Registers several spinner styles from a cli-spinners compatible object or JSON string
+ *
+ * @param definitions - Style definitions keyed by name, e.g. the contents of cli-spinners' spinners.json
+ * @throws Error if the JSON cannot be parsed or any definition is invalid
+ */
+export const registerSpinnerStyles = (
+  definitions: Record<string, SpinnerStyleDefinition> | string
+): void => {
+  let parsed: unknown = definitions
+  if (typeof definitions === 'string') {
+    try {
+      parsed = JSON.parse(definitions)
+    } catch {
+      throw new Error('Spinner style definitions must be valid JSON')
+    }
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Spinner style definitions must be an object keyed by style name')
+  }
+  Object.entries(parsed as Record<string, SpinnerStyleDefinition>).forEach(([name, definition]) =>
+    registerSpinnerStyle(name, definition)
+  )
+}
+
+/**
+ * Looks up a spinner style by name
+ *
+ * @param name - Style name
+ * @returns Style definition, or undefined if no style with that name exists
+ */
+export const getSpinnerStyle = (
+  name: SpinnerAnimationStyle | (string & Record<never, never>)
+): SpinnerStyleDefinition | undefined => {
+  return spinnerStyles.get(name)
+}
+
+/**
+ * Lists the names of all available spinner styles
+ *
+ * @returns Built-in and registered style names in registration order
+ */
+export const getSpinnerStyleNames = (): string[] => {
+  return Array.from(spinnerStyles.keys())
+}
@@ -0,0 +1,164 @@
+import type { ColorInput, NamedColor, ColorLevel } from '@interfaces/Colors'
+import type { OutputStream } from '@interfaces/Spinner'
+import type { StyleLayer, StyleModifier, Styler } from '@interfaces/Style'
+import {
+  getBackgroundColorCode,
+  getColorCode,
+  getColorLevel,
+  getNamedColors,
+  getResetCode,
+  getStyleCode,
+  getUnderlineColorCode
+} from '@utils/Colors'
+
+/** Sequence restoring the default text color */
+const FOREGROUND_CLOSE = '\x1b[39m'
+
+/** Sequence restoring the default background color */
+const BACKGROUND_CLOSE = '\x1b[49m'
+
+/** Sequence restoring the default underline color */
+const UNDERLINE_COLOR_CLOSE = '\x1b[59m'
+
+/**
+ * Sequences closing each text modifier
+ *
+ * Each modifier is closed with its own sequence so that nested styles
+ * do not reset the styles around them. Bold and dim share a close sequence,
+ * as do all underline variants.
+ */
+const MODIFIER_CLOSE_CODES: Record<StyleModifier, string> = {
+  bold: '\x1b[22m',
+  dim: '\x1b[22m',
+  italic: '\x1b[23m',
+  underline: '\x1b[24m',
+  doubleUnderline: '\x1b[24m',
+  curlyUnderline: '\x1b[24m',
+  blink: '\x1b[25m',
+  inverse: '\x1b[27m',
+  hidden: '\x1b[28m',
+  strikethrough: '\x1b[29m',
+  overline: '\x1b[55m'
+}
+
+/**
+ * Creates a chainable styler
+ *
+ * The color level is resolved each time text is styled, so setColorLevel()
+ * and changes of the stream's capabilities apply to existing stylers.
+ *
+ * @param stream - Output stream whose color level is used (defaults to process.stdout)
+ * @returns Styler without any style applied
+ */
+export const createStyler = (stream?: OutputStream): Styler => {
+  return buildStyler([], stream)
+}
+
+/**
+ * Default chainable styler using the color level of process.stdout
+ *
+ * @example style.red.bold('Error:'), style.hex('#ff8800').bgBlue('Warning')
+ */
+export const style: Styler = createStyler()
+
+/**
+ * Builds a styler applying the given layers, with properties adding further layers
+ *
+ * @param layers - Styles applied from outermost to innermost
+ * @param stream - Output stream whose color level is used
+ * @returns Callable styler
+ */
+function buildStyler(layers: StyleLayer[], stream?: OutputStream): Styler {
+  const styler = ((...text: unknown[]): string =>
+    applyLayers(layers, text.join(' '), getColorLevel(stream))) as Styler
+  const chain = (layer: StyleLayer): Styler => buildStyler([...layers, layer], stream)
+  const properties: PropertyDescriptorMap = {}
+  Object.entries(MODIFIER_CLOSE_CODES).forEach(([name, close]) => {
+    const layer: StyleLayer = { open: level => getStyleCode({ [name]: true }, level), close }
+    properties[name] = { get: (): Styler => chain(layer) }
+  })
+  getNamedColors().forEach(name => {
+    properties[name] = { get: (): Styler => chain(foregroundLayer(name)) }
+    properties[`bg${capitalize(name)}`] = { get: (): Styler => chain(backgroundLayer(name)) }
+  })
+  Object.defineProperties(styler, properties)
+  styler.color = (color): Styler => chain(foregroundLayer(color))
+  styler.bgColor = (color): Styler => chain(backgroundLayer(color))
+  styler.hex = (hex): Styler => chain(foregroundLayer(hex))
+  styler.bgHex = (hex): Styler => chain(backgroundLayer(hex))
+  styler.underlineColor = (color): Styler =>
+    chain({ open: level => getUnderlineColorCode(color, level), close: UNDERLINE_COLOR_CLOSE })
+  styler.rgb = (r, g, b): Styler => chain(foregroundLayer([r, g, b]))
+  styler.bgRgb = (r, g, b): Styler => chain(backgroundLayer([r, g, b]))
+  return styler
+}
+
+/**
+ * Applies layers to text, innermost first
+ *
+ * @param layers - Styles applied from outermost to innermost
+ * @param text - Text to style
+ * @param level - Color level to emit
+ * @returns Styled text, or the text unchanged when the color level is 'none'
+ */
+function applyLayers(layers: StyleLayer[], text: string, level: ColorLevel): string {
+  if (level === 'none' || !text) {
+    return text
+  }
+  return layers.reduceRight((result, layer) => wrapLayer(result, layer, level), text)
+}
+
+/**
+ * Wraps text in a single style
+ *
+ * Inner sequences closing the same style, and full resets, are followed by the
+ * open sequence again so the style continues after nested styled text.
+ *
+ * @param text - Text to wrap, possibly containing nested styles
+ * @param layer - Style to apply
+ * @param level - Color level to emit
+ * @returns Text enclosed in the open and close sequences of the style
+ */
+function wrapLayer(text: string, layer: StyleLayer, level: ColorLevel): string {
+  const open = layer.open(level)
+  if (!open) {
+    return text
+  }
+  const reset = getResetCode(level)
+  const restored = text
+    .split(layer.close)
+    .join(`${layer.close}${open}`)
+    .split(reset)
+    .join(`${reset}${open}`)
+  return `${open}${restored}${layer.close}`
+}
+
+/**
+ * Creates a text color layer
+ *
+ * @param color - Color in any format accepted by getColorCode
+ * @returns Layer enabling the color and restoring the default text color
+ */
+function foregroundLayer(color: ColorInput): StyleLayer {
+  return { open: level => getColorCode(color, level), close: FOREGROUND_CLOSE }
+}
+
+/**
+ * Creates a background color layer
+ *
+ * @param color - Color in any format accepted by getBackgroundColorCode
+ * @returns Layer enabling the background and restoring the default background color
+ */
+function backgroundLayer(color: ColorInput): StyleLayer {
+  return { open: level => getBackgroundColorCode(color, level), close: BACKGROUND_CLOSE }
+}
+
+/**
+ * Capitalizes the first letter of a color name
+ *
+ * @param name - Color name to capitalize
+ * @returns Name with its first letter in upper case
+ */
+function capitalize(name: NamedColor): Capitalize<NamedColor> {
+  return `${name.charAt(0).toUpperCase()}${name.slice(1)}` as Capitalize<NamedColor>
+}
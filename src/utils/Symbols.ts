@@ -0,0 +1,113 @@
+import type { ColorLevel } from '@interfaces/Colors'
+import type { ColorOption, CompletionStatus } from '@interfaces/Spinner'
+import type { StatusSymbol, StatusSymbolOptions } from '@interfaces/Symbols'
+import { getColorCode, getResetCode } from '@utils/Colors'
+import { isUnicodeSupported } from '@utils/Terminal'
+
+/**
+ * Completion symbols and colors for each final state
+ *
+ * Shared by spinners, progress bars and multi-line containers so all
+ * completion messages look identical.
+ */
+const STATUS_SYMBOLS: Record<CompletionStatus, StatusSymbol> = {
+  succeed: { symbol: '✔', color: 'green' },
+  fail: { symbol: '✖', color: 'red' },
+  warn: { symbol: '⚠', color: 'yellow' },
+  info: { symbol: 'ℹ', color: 'blue' }
+}
+
+/**
+ * Fallback glyphs for terminals without Unicode support
+ *
+ * Limited to characters available in legacy code pages such as CP437.
+ */
+const FALLBACK_SYMBOLS: Record<CompletionStatus, string> = {
+  succeed: '√',
+  fail: '×',
+  warn: '‼',
+  info: 'i'
+}
+
+/**
+ * Globally configured symbol overrides applied to every component
+ */
+let globalSymbols: StatusSymbolOptions = {}
+
+/**
+ * Sets the glyphs and colors used for completion states by all components
+ *
+ * Per-instance `symbols` options take precedence over these overrides.
+ *
+ * @param symbols - Overrides for each completion state, or undefined to restore the defaults
+ */
+export const setSymbols = (symbols: StatusSymbolOptions | undefined): void => {
+  globalSymbols = symbols ?? {}
+}
+
+/**
+ * Resolves the glyph and color for a completion state
+ *
+ * Instance overrides win over global overrides, which win over the defaults.
+ * Default glyphs fall back to ASCII-compatible characters when the terminal
+ * does not support Unicode.
+ *
+ * @param status - Completion state to resolve
+ * @param overrides - Per-instance overrides
+ * @returns Glyph and color for the state
+ */
+export const getStatusSymbol = (
+  status: CompletionStatus,
+  overrides: StatusSymbolOptions = {}
+): StatusSymbol => {
+  const instance = overrides[status]
+  const global = globalSymbols[status]
+  const fallback = isUnicodeSupported() ? STATUS_SYMBOLS[status].symbol : FALLBACK_SYMBOLS[status]
+  return {
+    symbol: instance?.symbol ?? global?.symbol ?? fallback,
+    color: instance?.color ?? global?.color ?? STATUS_SYMBOLS[status].color
+  }
+}
+
+/**
+ * Builds a final line with an optional colored glyph followed by the message
+ *
+ * @param symbol - Glyph printed before the message (omitted when empty)
+ * @param message - Message displayed after the glyph
+ * @param color - Color of the glyph (no color when empty)
+ * @param level - Color level to emit
+ * @returns Formatted line without trailing newline
+ */
+export const formatSymbolLine = (
+  symbol: string,
+  message: string,
+  color: ColorOption,
+  level: ColorLevel
+): string => {
+  if (!symbol) {
+    return message
+  }
+  if (!color) {
+    return `${symbol} ${message}`
+  }
+  return `${getColorCode(color, level)}${symbol}${getResetCode(level)} ${message}`
+}
+
+/**
+ * Builds a completion line with a colored status symbol followed by the message
+ *
+ * @param status - Final state determining the symbol and its color
+ * @param message - Message displayed after the symbol
+ * @param level - Color level to emit
+ * @param overrides - Optional per-instance symbol overrides
+ * @returns Formatted completion line without trailing newline
+ */
+export const formatStatusLine = (
+  status: CompletionStatus,
+  message: string,
+  level: ColorLevel,
+  overrides?: StatusSymbolOptions
+): string => {
+  const { symbol, color } = getStatusSymbol(status, overrides)
+  return formatSymbolLine(symbol, message, color, level)
+}
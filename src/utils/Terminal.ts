@@ -0,0 +1,301 @@
+import type { OutputStream } from '@interfaces/Spinner'
+import type { ColorLevel } from '@interfaces/Colors'
+
+/**
+ * Detects whether the current process runs inside a continuous integration environment
+ *
+ * Checks the conventional CI environment variable set by most CI providers.
+ * Values of 'false' and '0' are treated as not running in CI.
+ *
+ * @returns True when a CI environment is detected
+ */
+export const isCI = (): boolean => {
+  const { CI } = process.env
+  return CI !== undefined && CI !== '' && CI !== 'false' && CI !== '0'
+}
+
+/**
+ * Detects whether a stream supports animated, in-place terminal rendering
+ *
+ * A stream is considered interactive when it is attached to a TTY and the
+ * process is not running in a CI environment. Non-interactive streams should
+ * receive line-based output without carriage returns or clear sequences.
+ *
+ * @param stream - Output stream to inspect
+ * @returns True when animated rendering is supported
+ */
+export const isInteractiveStream = (stream: OutputStream): boolean => {
+  return stream.isTTY === true && !isCI()
+}
+
+/**
+ * Detects whether the terminal can display Unicode symbols
+ *
+ * Outside Windows every terminal except the Linux kernel console is assumed to
+ * support Unicode. On Windows only known modern terminals are trusted, since the
+ * legacy console renders most symbols as garbage.
+ *
+ * @returns True when Unicode symbols can be displayed
+ */
+export const isUnicodeSupported = (): boolean => {
+  const { TERM, WT_SESSION, TERMINUS_SUBLIME, ConEmuTask, TERM_PROGRAM, TERMINAL_EMULATOR } =
+    process.env
+  if (process.platform !== 'win32') {
+    return TERM !== 'linux'
+  }
+  return (
+    Boolean(WT_SESSION) ||
+    Boolean(TERMINUS_SUBLIME) ||
+    ConEmuTask === '{cmd::Cmder}' ||
+    TERM_PROGRAM === 'vscode' ||
+    TERM === 'xterm-256color' ||
+    TERM === 'alacritty' ||
+    TERMINAL_EMULATOR === 'JetBrains-JediTerm'
+  )
+}
+
+/**
+ * Terminal programs known to support OSC 8 hyperlinks, as reported by TERM_PROGRAM
+ */
+const HYPERLINK_TERMINALS = ['iTerm.app', 'WezTerm', 'vscode', 'ghostty', 'Hyper', 'Tabby']
+
+/**
+ * Detects whether a stream supports clickable OSC 8 hyperlinks
+ *
+ * Resolution order:
+ * - FORCE_HYPERLINK enables (any value except 0/false) or disables hyperlinks
+ * - Non-TTY streams and CI environments disable hyperlinks
+ * - Known terminals (Windows Terminal, Konsole, kitty, iTerm2, WezTerm, VS Code,
+ *   Ghostty and VTE-based terminals from version 0.50) enable hyperlinks
+ *
+ * @param stream - Output stream to inspect (defaults to process.stdout)
+ * @returns True when hyperlinks can be emitted
+ */
+export const isHyperlinkSupported = (stream: OutputStream = process.stdout): boolean => {
+  const { FORCE_HYPERLINK, TERM, TERM_PROGRAM, VTE_VERSION, WT_SESSION, KONSOLE_VERSION } =
+    process.env
+  if (FORCE_HYPERLINK !== undefined) {
+    return FORCE_HYPERLINK !== '0' && FORCE_HYPERLINK !== 'false'
+  }
+  if (stream.isTTY !== true || isCI()) {
+    return false
+  }
+  if (WT_SESSION !== undefined || KONSOLE_VERSION !== undefined || TERM === 'xterm-kitty') {
+    return true
+  }
+  if (TERM_PROGRAM && HYPERLINK_TERMINALS.includes(TERM_PROGRAM)) {
+    return true
+  }
+  return Number(VTE_VERSION) >= 5000
+}
+
+/**
+ * Builds a clickable OSC 8 hyperlink
+ *
+ * Terminals without hyperlink support receive the text followed by the URL in
+ * parentheses, or the text alone when showUrl is false (e.g. on animated lines,
+ * where a long URL could wrap and break in-place redraws).
+ *
+ * @param text - Visible link text
+ * @param url - Link target
+ * @param stream - Output stream the link is written to (defaults to process.stdout)
+ * @param showUrl - Appends the URL to the text when hyperlinks are not supported
+ * @returns Hyperlink sequence, or the plain-text fallback
+ */
+export const formatHyperlink = (
+  text: string,
+  url: string,
+  stream: OutputStream = process.stdout,
+  showUrl = true
+): string => {
+  if (!url) {
+    return text
+  }
+  if (isHyperlinkSupported(stream)) {
+    return `\x1b]8;;${url}\x1b\\${text || url}\x1b]8;;\x1b\\`
+  }
+  if (!text) {
+    return url
+  }
+  return showUrl ? `${text} (${url})` : text
+}
+
+/**
+ * Parses the FORCE_COLOR environment variable into a color level
+ *
+ * @param value - Raw FORCE_COLOR value
+ * @returns Forced color level, or null when FORCE_COLOR is not set
+ */
+function parseForceColor(value: string | undefined): ColorLevel | null {
+  if (value === undefined) {
+    return null
+  }
+  if (value === '' || value === 'true' || value === '1') {
+    return 'ansi16'
+  }
+  if (value === 'false' || value === '0') {
+    return 'none'
+  }
+  if (value === '2') {
+    return 'ansi256'
+  }
+  if (value === '3') {
+    return 'truecolor'
+  }
+  return 'ansi16'
+}
+
+/**
+ * Detects the color support level of a stream from its TTY state and environment
+ *
+ * Resolution order:
+ * - FORCE_COLOR forces a level (0/false: none, 1/true: 16, 2: 256, 3: truecolor)
+ * - NO_COLOR with any non-empty value disables colors
+ * - Non-TTY streams and TERM=dumb disable colors
+ * - COLORTERM=truecolor/24bit or a truecolor TERM enables 24-bit colors
+ * - A 256-color TERM enables the extended palette
+ * - Any other TTY falls back to the basic 16-color palette
+ *
+ * @param stream - Output stream to inspect (defaults to process.stdout)
+ * @returns Detected color support level
+ */
+export const detectColorLevel = (stream: OutputStream = process.stdout): ColorLevel => {
+  const { FORCE_COLOR, NO_COLOR, TERM, COLORTERM, WT_SESSION } = process.env
+  const forced = parseForceColor(FORCE_COLOR)
+  if (forced !== null) {
+    return forced
+  }
+  if (NO_COLOR !== undefined && NO_COLOR !== '') {
+    return 'none'
+  }
+  if (stream.isTTY !== true || TERM === 'dumb') {
+    return 'none'
+  }
+  if (COLORTERM === 'truecolor' || COLORTERM === '24bit' || WT_SESSION !== undefined) {
+    return 'truecolor'
+  }
+  if (TERM && /-(truecolor|24bit|direct)$/i.test(TERM)) {
+    return 'truecolor'
+  }
+  if (TERM && /-256(color)?$/i.test(TERM)) {
+    return 'ansi256'
+  }
+  if (process.platform === 'win32') {
+    return 'ansi256'
+  }
+  return 'ansi16'
+}
+
+/**
+ * Escape sequence hiding the terminal cursor during animation
+ */
+export const HIDE_CURSOR = '\x1b[?25l'
+
+/**
+ * Escape sequence restoring the terminal cursor
+ */
+export const SHOW_CURSOR = '\x1b[?25h'
+
+/**
+ * Longest time between two redraws of a container in milliseconds
+ */
+const MAX_REDRAW_INTERVAL = 80
+
+/**
+ * Calculates the redraw interval of a container from the frame intervals of its items
+ *
+ * Containers redraw at least every 80 ms so timing tokens stay current, and faster
+ * when an item animates at a shorter interval.
+ *
+ * @param intervals - Effective frame intervals of the running items in milliseconds
+ * @returns Redraw interval in milliseconds
+ */
+export const getRedrawInterval = (intervals: number[]): number => {
+  return Math.min(MAX_REDRAW_INTERVAL, ...intervals)
+}
+
+/**
+ * Builds the escape sequence that erases previously rendered lines
+ *
+ * Assumes the cursor sits at the end of the last rendered line. Clears that line and
+ * every line above it, leaving the cursor at the start of the first erased line.
+ *
+ * @param count - Number of lines to erase
+ * @returns ANSI escape sequence, or empty string when there is nothing to erase
+ */
+export const eraseLines = (count: number): string => {
+  if (count <= 0) {
+    return ''
+  }
+  return `${'\x1b[2K\x1b[1A'.repeat(count - 1)}\x1b[2K\r`
+}
+
+/**
+ * Removes ANSI escape sequences from a string
+ *
+ * Strips SGR color and style codes, cursor control sequences and OSC 8 hyperlinks.
+ *
+ * @param text - Text that may contain ANSI escape sequences
+ * @returns Text without escape sequences
+ */
+export const stripAnsi = (text: string): string => {
+  return text.replace(/\x1b\[[0-9;:?]*[A-Za-z]|\x1b\]8;[^\x07\x1b]*(?:\x07|\x1b\\)/g, '')
+}
+
+/**
+ * Code point ranges of East Asian wide and fullwidth characters occupying two cells
+ */
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x20000, 0x3fffd]
+]
+
+/**
+ * Splits text into user-perceived characters, keeping emoji sequences together
+ */
+const graphemeSegmenter = new Intl.Segmenter()
+
+/**
+ * Calculates the number of terminal cells a string occupies
+ *
+ * Ignores ANSI escape sequences. East Asian wide characters and emoji occupy two
+ * cells, combining marks and other zero-width characters none, everything else one.
+ *
+ * @param text - Text that may contain ANSI escape sequences
+ * @returns Visible width of the text
+ */
+export const visibleWidth = (text: string): number => {
+  return Array.from(graphemeSegmenter.segment(stripAnsi(text))).reduce(
+    (width, { segment }) => width + graphemeWidth(segment),
+    0
+  )
+}
+
+/**
+ * Calculates the number of terminal cells a single grapheme occupies
+ *
+ * @param grapheme - User-perceived character, possibly made of several code points
+ * @returns 0 for zero-width characters, 2 for wide characters and emoji, otherwise 1
+ */
+function graphemeWidth(grapheme: string): number {
+  if (/^[\p{Cc}\p{Cf}\p{Mn}\p{Me}]+$/u.test(grapheme)) {
+    return 0
+  }
+  if (/\p{Emoji_Presentation}|\uFE0F|\p{Regional_Indicator}/u.test(grapheme)) {
+    return 2
+  }
+  const codePoint = grapheme.codePointAt(0) ?? 0
+  return WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 2 : 1
+}
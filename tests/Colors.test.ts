@@ -0,0 +1,223 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+  Progress,
+  Spinner,
+  darken,
+  detectColorLevel,
+  getBackgroundColorCode,
+  getColorCode,
+  getColorLevel,
+  getContrastRatio,
+  getReadableColor,
+  getStyleCode,
+  getUnderlineColorCode,
+  invert,
+  lighten,
+  mix,
+  parseColor,
+  setColorLevel,
+  setStrictColors
+} from '../src/index'
+import { createStream } from './helpers'
+
+/** Environment variables read by the color detection */
+const COLOR_ENV = ['FORCE_COLOR', 'NO_COLOR', 'TERM', 'COLORTERM', 'WT_SESSION'] as const
+
+describe('color detection', () => {
+  const saved = new Map<string, string | undefined>()
+
+  beforeEach(() => {
+    for (const name of COLOR_ENV) {
+      saved.set(name, process.env[name])
+      delete process.env[name]
+    }
+    process.env['TERM'] = 'xterm'
+  })
+
+  afterEach(() => {
+    for (const [name, value] of saved) {
+      if (value === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = value
+      }
+    }
+    setColorLevel(undefined)
+  })
+
+  it('reads the level from TERM and COLORTERM on a terminal', () => {
+    assert.equal(detectColorLevel(createStream()), 'ansi16')
+    process.env['TERM'] = 'xterm-256color'
+    assert.equal(detectColorLevel(createStream()), 'ansi256')
+    process.env['COLORTERM'] = 'truecolor'
+    assert.equal(detectColorLevel(createStream()), 'truecolor')
+    process.env['TERM'] = 'dumb'
+    assert.equal(detectColorLevel(createStream()), 'none')
+  })
+
+  it('disables colors for streams without a terminal and with NO_COLOR', () => {
+    assert.equal(detectColorLevel(createStream(false)), 'none')
+    process.env['NO_COLOR'] = '1'
+    assert.equal(detectColorLevel(createStream()), 'none')
+    process.env['NO_COLOR'] = ''
+    assert.equal(detectColorLevel(createStream()), 'ansi16')
+  })
+
+  it('lets FORCE_COLOR override every other signal', () => {
+    process.env['NO_COLOR'] = '1'
+    process.env['FORCE_COLOR'] = '3'
+    assert.equal(detectColorLevel(createStream(false)), 'truecolor')
+    process.env['FORCE_COLOR'] = '2'
+    assert.equal(detectColorLevel(createStream(false)), 'ansi256')
+    process.env['FORCE_COLOR'] = 'true'
+    assert.equal(detectColorLevel(createStream(false)), 'ansi16')
+    process.env['FORCE_COLOR'] = '0'
+    assert.equal(detectColorLevel(createStream()), 'none')
+  })
+
+  it('prefers a forced level until it is reset', () => {
+    setColorLevel('ansi256')
+    assert.equal(getColorLevel(createStream(false)), 'ansi256')
+    setColorLevel(undefined)
+    assert.equal(getColorLevel(createStream(false)), 'none')
+  })
+
+  it('renders components without colors on streams without colors', async () => {
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Work', color: 'red', stream })
+    await spinner.start()
+    await spinner.succeed('Done')
+    assert.doesNotMatch(stream.output, /\x1b/)
+  })
+})
+
+describe('downsampling', () => {
+  it('converts colors to the closest code of each level', () => {
+    assert.equal(getColorCode('#ff0000', 'truecolor'), '\x1b[38;2;255;0;0m')
+    assert.equal(getColorCode('#ff0000', 'ansi256'), '\x1b[38;5;196m')
+    assert.equal(getColorCode('#ff0000', 'ansi16'), '\x1b[91m')
+    assert.equal(getColorCode('#808080', 'ansi256'), '\x1b[38;5;244m')
+    assert.equal(getColorCode('#808080', 'ansi16'), '\x1b[90m')
+  })
+
+  it('emits nothing without color support', () => {
+    assert.equal(getColorCode('#ff0000', 'none'), '')
+    assert.equal(getBackgroundColorCode('blue', 'none'), '')
+  })
+})
+
+describe('text styles', () => {
+  it('emits a code for every SGR style', () => {
+    assert.equal(
+      getStyleCode(
+        {
+          bold: true,
+          dim: true,
+          italic: true,
+          underline: true,
+          doubleUnderline: true,
+          curlyUnderline: true,
+          blink: true,
+          inverse: true,
+          hidden: true,
+          strikethrough: true,
+          overline: true
+        },
+        'ansi16'
+      ),
+      '\x1b[1m\x1b[2m\x1b[3m\x1b[4m\x1b[4:2m\x1b[4:3m\x1b[5m\x1b[7m\x1b[8m\x1b[9m\x1b[53m'
+    )
+    assert.equal(getStyleCode({ bold: false, overline: true }, 'ansi16'), '\x1b[53m')
+    assert.equal(getStyleCode({ bold: true }, 'none'), '')
+  })
+
+  it('emits underline colors at each level', () => {
+    assert.equal(getUnderlineColorCode('#ff0000', 'truecolor'), '\x1b[58;2;255;0;0m')
+    assert.equal(getUnderlineColorCode('#ff0000', 'ansi256'), '\x1b[58;5;196m')
+    assert.equal(getUnderlineColorCode('red', 'ansi16'), '\x1b[58;5;1m')
+    assert.equal(getUnderlineColorCode('red', 'none'), '')
+  })
+
+  it('applies the styles of spinners and progress bars', () => {
+    setColorLevel('ansi16')
+    try {
+      const spinner = new Spinner({
+        text: 'x',
+        color: '',
+        spinner: ['-'],
+        strikethrough: true,
+        underlineColor: 'red'
+      })
+      assert.equal(spinner.format(0), '\x1b[9m\x1b[58;5;1m- x\x1b[0m')
+      const progress = new Progress({ text: 'x', color: '', overline: true, format: '{text}' })
+      assert.equal(progress.format(), '\x1b[53mx\x1b[0m')
+    } finally {
+      setColorLevel(undefined)
+    }
+  })
+})
+
+describe('parseColor', () => {
+  it('parses names, hex codes, color functions and tuples', () => {
+    assert.deepEqual(parseColor('red'), { kind: 'palette', index: 1 })
+    assert.deepEqual(parseColor('ansi256(208)'), { kind: 'palette', index: 208 })
+    assert.deepEqual(parseColor('#F00'), { kind: 'rgb', rgb: { r: 255, g: 0, b: 0 } })
+    assert.deepEqual(parseColor('Crimson'), { kind: 'rgb', rgb: { r: 220, g: 20, b: 60 } })
+    assert.deepEqual(parseColor('rgb(0 128 255)'), { kind: 'rgb', rgb: { r: 0, g: 128, b: 255 } })
+    assert.deepEqual(parseColor([1, 2, 3]), { kind: 'rgb', rgb: { r: 1, g: 2, b: 3 } })
+  })
+
+  it('throws on unknown names and out-of-range components', () => {
+    assert.throws(() => parseColor('nope'), /unknown color name/)
+    assert.throws(() => parseColor('300,0,0'), /out of range/)
+  })
+})
+
+describe('strict colors', () => {
+  afterEach(() => setStrictColors(false))
+
+  it('falls back silently unless strict', () => {
+    assert.equal(getColorCode('nope', 'truecolor'), '\x1b[36m')
+    assert.equal(getColorCode('300,0,0', 'truecolor'), '\x1b[38;2;255;0;0m')
+  })
+
+  it('throws on invalid colors when strict', () => {
+    setStrictColors(true)
+    assert.throws(() => getColorCode('nope', 'truecolor'), /unknown color name/)
+    assert.throws(() => getColorCode('300,0,0', 'truecolor'), /out of range/)
+  })
+})
+
+describe('color manipulation', () => {
+  it('adjusts the lightness', () => {
+    assert.equal(lighten('#808080', 10), '#9a9a9a')
+    assert.equal(darken('#808080', 10), '#676767')
+  })
+
+  it('mixes two colors by weight', () => {
+    assert.equal(mix('#000000', '#ffffff'), '#808080')
+    assert.equal(mix('#000000', '#ffffff', 0), '#000000')
+    assert.equal(mix('#000000', '#ffffff', 1), '#ffffff')
+    assert.throws(() => mix('#000000', '#ffffff', 2), /between 0 and 1/)
+  })
+
+  it('inverts each component', () => {
+    assert.equal(invert('#123456'), '#edcba9')
+  })
+})
+
+describe('contrast', () => {
+  it('calculates the WCAG contrast ratio regardless of order', () => {
+    assert.equal(getContrastRatio('#000000', '#ffffff'), 21)
+    assert.equal(getContrastRatio('#ffffff', '#000000'), 21)
+    assert.equal(getContrastRatio('#777777', '#777777'), 1)
+  })
+
+  it('picks the most readable candidate', () => {
+    assert.equal(getReadableColor('#000000'), '#ffffff')
+    assert.equal(getReadableColor('#ffffff'), '#000000')
+    assert.equal(getReadableColor('#333333', ['#444444', 'yellow']), 'yellow')
+    assert.throws(() => getReadableColor('#000000', []), /at least one candidate/)
+  })
+})
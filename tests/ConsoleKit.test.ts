@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { ConsoleKit, setColorLevel } from '../src/index'
+import type { ProgressOptions } from '../src/index'
+import { createStream } from './helpers'
+
+before(() => setColorLevel('none'))
+
+/**
+ * Iterates a source with track and returns the first line drawn
+ *
+ * @param source - Iterable to track
+ * @param options - Options passed to track
+ * @returns First line printed by the line-based progress bar
+ */
+const trackFirstLine = async (
+  source: Iterable<unknown>,
+  options: ProgressOptions = {}
+): Promise<string> => {
+  const stream = createStream(false)
+  for await (const _ of ConsoleKit.track(source, {
+    ...options,
+    stream,
+    format: '{value}/{total}'
+  })) {
+    // Drain the source
+  }
+  return stream.output.split('\n')[0] ?? ''
+}
+
+describe('ConsoleKit.task', () => {
+  it('runs the work with a spinner showing the given text', async () => {
+    const stream = createStream(false)
+    const result = await ConsoleKit.task({ text: 'Build', stream, successText: 'Built' }, () =>
+      Promise.resolve([1, 2])
+    )
+    assert.deepEqual(result, [1, 2])
+    assert.equal(stream.output, '- Build\n✔ Built\n')
+  })
+
+  it('re-throws the error after the failure message', async () => {
+    const stream = createStream(false)
+    await assert.rejects(
+      ConsoleKit.task(
+        { text: 'Build', stream, failText: 'Build failed' },
+        Promise.reject(new Error('boom'))
+      ),
+      /boom/
+    )
+    assert.ok(stream.output.endsWith('✖ Build failed\n'))
+  })
+})
+
+describe('ConsoleKit.track', () => {
+  it('infers the total from arrays, sets and maps', async () => {
+    assert.equal(await trackFirstLine([1, 2, 3]), '0/3')
+    assert.equal(await trackFirstLine(new Set([1, 2])), '0/2')
+    assert.equal(await trackFirstLine(new Map([[1, 1]])), '0/1')
+  })
+
+  it('keeps an explicit total', async () => {
+    assert.equal(await trackFirstLine([1, 2, 3], { total: 5 }), '0/5')
+  })
+
+  it('stays indeterminate for an explicit null total', async () => {
+    assert.equal(await trackFirstLine([1, 2, 3], { total: null }), '0/?')
+  })
+
+  it('stays indeterminate for generators and iterators', async () => {
+    const generate = function* (): Generator<number> {
+      yield 1
+    }
+    assert.equal(await trackFirstLine(generate()), '0/?')
+    assert.equal(await trackFirstLine(new Map([[1, 1]]).keys()), '0/?')
+  })
+})
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { formatBytes, formatDuration, formatRate, formatValue } from '../src/index'
+
+describe('formatDuration', () => {
+  it('formats each range with its own units', () => {
+    assert.equal(formatDuration(12_400), '12.4s')
+    assert.equal(formatDuration(185_000), '3m 05s')
+    assert.equal(formatDuration(3_720_000), '1h 02m')
+    assert.equal(formatDuration(183_600_000), '2d 03h')
+  })
+
+  it('picks the unit after rounding to tenths of a second', () => {
+    assert.equal(formatDuration(59_940), '59.9s')
+    assert.equal(formatDuration(59_960), '1m 00s')
+  })
+
+  it('returns a placeholder for unknown durations', () => {
+    assert.equal(formatDuration(Number.NaN), '--')
+    assert.equal(formatDuration(-1), '--')
+  })
+})
+
+describe('formatBytes', () => {
+  it('scales SI and IEC sizes to the largest fitting unit', () => {
+    assert.equal(formatBytes(512), '512 B')
+    assert.equal(formatBytes(12_300_000), '12.3 MB')
+    assert.equal(formatBytes(12_300_000, { standard: 'iec' }), '11.7 MiB')
+    assert.equal(formatBytes(1500, { bits: true }), '1.5 kb')
+  })
+
+  it('picks the unit after rounding to the shown digits', () => {
+    assert.equal(formatBytes(999_949), '999.9 kB')
+    assert.equal(formatBytes(999_950), '1.0 MB')
+    assert.equal(formatBytes(999.6), '1.0 kB')
+    assert.equal(formatBytes(999_999, { fractionDigits: 3 }), '999.999 kB')
+    assert.equal(formatBytes(1_048_575, { standard: 'iec' }), '1.0 MiB')
+  })
+
+  it('keeps the sign of negative sizes', () => {
+    assert.equal(formatBytes(-999_950), '-1.0 MB')
+  })
+})
+
+describe('formatValue and formatRate', () => {
+  it('formats values in the given unit', () => {
+    assert.equal(formatValue(1234, 'items'), '1,234')
+    assert.equal(formatValue(12, 'files'), '12 files')
+    assert.equal(formatValue(999_950, 'bytes'), '1.0 MB')
+    assert.equal(
+      formatValue(3, value => `${value} of them`),
+      '3 of them'
+    )
+  })
+
+  it('formats rates per second', () => {
+    assert.equal(formatRate(12.54, 'items'), '12.5')
+    assert.equal(formatRate(4_100_000, 'bytes'), '4.1 MB/s')
+  })
+})
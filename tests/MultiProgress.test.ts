@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { MultiProgress, setColorLevel } from '../src/index'
+import { createStream, wait } from './helpers'
+
+before(() => setColorLevel('none'))
+
+describe('MultiProgress', () => {
+  it('updates the timing tokens of each bar', async () => {
+    const container = new MultiProgress({ stream: createStream(), interactive: true })
+    const bar = container.add('task', { total: 100, format: '{elapsed}|{rate}|{eta}' })
+    await container.start()
+    const initial = bar.format('none')
+    for (let step = 1; step <= 4; step++) {
+      await wait(60)
+      bar.update(step * 10)
+    }
+    const [elapsed, rate, eta] = bar.format('none').split('|')
+    assert.notEqual(bar.format('none'), initial)
+    assert.notEqual(elapsed, '0s')
+    assert.ok(Number.parseFloat(rate) > 0)
+    assert.notEqual(eta, initial.split('|')[2])
+    await container.stop()
+  })
+
+  it('sums all bars in the aggregate bar', async () => {
+    const stream = createStream()
+    const container = new MultiProgress({
+      stream,
+      interactive: true,
+      aggregate: { format: 'total {value}/{total}' }
+    })
+    const first = container.add('first', { total: 10 })
+    const second = container.add('second', { total: 30 })
+    await container.start()
+    first.update(5)
+    second.update(15)
+    await wait(120)
+    assert.match(stream.output, /total 20\/40/)
+    second.remove()
+    first.update(10)
+    await wait(120)
+    assert.match(stream.output, /total 10\/10/)
+    await container.stop()
+  })
+
+  it('animates indeterminate bars', async () => {
+    const container = new MultiProgress({ stream: createStream(), interactive: true })
+    const bar = container.add('task', { width: 10, interval: 20 })
+    await container.start()
+    const frame = bar.format('none')
+    await wait(70)
+    assert.notEqual(bar.format('none'), frame)
+    await container.stop()
+  })
+
+  it('prints the aggregate bar at 10% milestones in line-based mode', async () => {
+    const stream = createStream(false)
+    const container = new MultiProgress({ stream, aggregate: { format: 'total {value}/{total}' } })
+    const first = container.add('first', { total: 10 })
+    const second = container.add('second', { total: 10 })
+    await container.start()
+    first.update(1)
+    first.update(2)
+    second.update(1)
+    first.complete()
+    second.update(10)
+    await container.stop()
+    assert.equal(
+      stream.output,
+      [
+        '- first',
+        '- second',
+        'total 0/20',
+        'total 2/20',
+        '✔ first',
+        'total 11/20',
+        'total 20/20',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('prints bars finished before the start', async () => {
+    const stream = createStream(false)
+    const container = new MultiProgress({ stream })
+    container.add('early', { total: 10 }).warn('skipped')
+    container.add('late', { total: 10 })
+    await container.start()
+    await container.stop()
+    assert.equal(stream.output, '⚠ skipped\n- late\n')
+  })
+})
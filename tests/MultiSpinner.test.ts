@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { MultiSpinner, setColorLevel } from '../src/index'
+import { createStream, wait } from './helpers'
+
+before(() => setColorLevel('none'))
+
+describe('MultiSpinner', () => {
+  it('draws one line per item and keeps finished lines on stop', async () => {
+    const stream = createStream()
+    const container = new MultiSpinner({ stream, interactive: true })
+    const first = container.add('first')
+    container.add('second')
+    await container.start()
+    assert.match(stream.output, /first\n.*second/)
+    first.succeed('first done')
+    await container.stop()
+    assert.ok(stream.output.endsWith('✔ first done\n\x1b[?25h'))
+    assert.doesNotMatch(stream.output.slice(stream.output.lastIndexOf('\x1b[2K')), /second/)
+  })
+
+  it('ignores updates after an item finished', () => {
+    const container = new MultiSpinner({ stream: createStream(), interactive: true })
+    const item = container.add('task')
+    item.fail('broken')
+    item.updateText('later')
+    item.succeed()
+    assert.equal(item.status, 'fail')
+    assert.equal(item.currentText, 'broken')
+  })
+
+  it('prints each line once in line-based mode', async () => {
+    const stream = createStream(false)
+    const container = new MultiSpinner({ stream })
+    container.add('early').warn('skipped early')
+    const item = container.add('running')
+    await container.start()
+    item.succeed()
+    await container.stop()
+    assert.equal(stream.output, '⚠ skipped early\n- running\n✔ running\n')
+  })
+
+  it('redraws at the shortest frame interval of its running spinners', async () => {
+    const stream = createStream()
+    const container = new MultiSpinner({ stream, interactive: true })
+    container.add('slow')
+    const fast = container.add('fast', { interval: 20 })
+    await container.start()
+    await wait(200)
+    const redraws = stream.output.split('\x1b[2K\r').length
+    assert.ok(redraws > 6, `expected frequent redraws, got ${redraws}`)
+    fast.succeed()
+    stream.output = ''
+    await wait(200)
+    assert.ok(stream.output.split('\x1b[2K\r').length <= 4)
+    await container.stop()
+  })
+
+  it('speeds up the redraw loop when an item speeds up', async () => {
+    const stream = createStream()
+    const container = new MultiSpinner({ stream, interactive: true })
+    const item = container.add('task')
+    await container.start()
+    item.setSpeed(4)
+    stream.output = ''
+    await wait(200)
+    assert.ok(stream.output.split('\x1b[2K\r').length > 6)
+    await container.stop()
+  })
+
+  it('shows the elapsed time of running items', async () => {
+    const container = new MultiSpinner({ stream: createStream(), interactive: true })
+    const item = container.add('task', { showElapsed: true })
+    await container.start()
+    await wait(150)
+    assert.match(item.format('none'), /task \(0\.[1-9]s\)$/)
+    item.warn()
+    assert.equal(item.format('none'), '⚠ task')
+    await container.stop()
+  })
+})
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict'
+import { afterEach, before, beforeEach, describe, it } from 'node:test'
+import {
+  MultiProgress,
+  MultiSpinner,
+  Spinner,
+  TaskList,
+  setColorLevel,
+  setConsoleInterception,
+  setExitHandling
+} from '../src/index'
+import { createStream } from './helpers'
+
+before(() => setColorLevel('none'))
+
+describe('console interception', () => {
+  const write = process.stdout.write
+  let output = ''
+
+  beforeEach(() => {
+    output = ''
+    process.stdout.write = ((chunk: string | Uint8Array): boolean => {
+      output += String(chunk)
+      return true
+    }) as typeof process.stdout.write
+    setConsoleInterception(true)
+  })
+
+  afterEach(() => {
+    setConsoleInterception(false)
+    process.stdout.write = write
+  })
+
+  it('prints complete lines above the spinner', async () => {
+    const spinner = new Spinner({ text: 'Work', stream: process.stdout, interactive: true })
+    await spinner.start()
+    process.stdout.write('first\nsecond')
+    assert.match(output, /\r\x1b\[Kfirst\n/)
+    assert.doesNotMatch(output, /second/)
+    await spinner.stop()
+  })
+
+  it('prints an incomplete line on its own line once the last component stops', async () => {
+    const spinner = new Spinner({ text: 'Work', stream: process.stdout, interactive: true })
+    await spinner.start()
+    process.stdout.write('partial')
+    await spinner.succeed()
+    assert.ok(output.endsWith('partial\n✔ Work\n'))
+    assert.ok(output.indexOf('partial') > output.lastIndexOf('\x1b[K'))
+  })
+})
+
+describe('log', () => {
+  it('prints messages above an animated spinner and redraws it', async () => {
+    const stream = createStream()
+    const spinner = new Spinner({ text: 'Work', stream, interactive: true, hideCursor: false })
+    await spinner.start()
+    spinner.log('note')
+    assert.match(stream.output, /\r\x1b\[Knote\n\r\x1b\[K⠋ Work$/)
+    await spinner.stop()
+  })
+
+  it('prints messages as they are in line-based mode', async () => {
+    const stream = createStream(false)
+    const container = new MultiSpinner({ stream })
+    container.add('task')
+    await container.start()
+    container.log('note')
+    await container.stop()
+    assert.equal(stream.output, '- task\nnote\n')
+  })
+})
+
+describe('exit handling', () => {
+  const keepAlive = (): void => {}
+
+  beforeEach(() => process.on('SIGINT', keepAlive))
+
+  afterEach(() => {
+    process.off('SIGINT', keepAlive)
+    setExitHandling({ failText: false })
+  })
+
+  it('stops an interrupted spinner and restores the cursor', async () => {
+    const stream = createStream()
+    const spinner = new Spinner({ text: 'Work', stream, interactive: true })
+    await spinner.start()
+    process.emit('SIGINT', 'SIGINT')
+    assert.ok(stream.output.endsWith('\r\x1b[K\x1b[?25h'))
+  })
+
+  it('prints a fail line for each unfinished item with its own symbols', async () => {
+    setExitHandling({ failText: true })
+    const stream = createStream()
+    const container = new MultiSpinner({ stream, interactive: true })
+    container.add('done').succeed()
+    container.add('first', { symbols: { fail: { symbol: 'x' } } })
+    container.add('second')
+    await container.start()
+    process.emit('SIGINT', 'SIGINT')
+    assert.ok(stream.output.endsWith('x first\n✖ second\n'))
+  })
+
+  it('prints a custom fail text for each unfinished bar', async () => {
+    setExitHandling({ failText: 'Interrupted' })
+    const stream = createStream()
+    const container = new MultiProgress({ stream, interactive: true })
+    container.add('first', { total: 10 })
+    container.add('second', { total: 10 })
+    await container.start()
+    process.emit('SIGINT', 'SIGINT')
+    assert.ok(stream.output.endsWith('✖ Interrupted\n✖ Interrupted\n'))
+  })
+
+  it('prints nothing when no item was unfinished', async () => {
+    setExitHandling({ failText: 'Interrupted' })
+    const stream = createStream()
+    const container = new MultiSpinner({ stream, interactive: true })
+    container.add('done').succeed()
+    await container.start()
+    process.emit('SIGINT', 'SIGINT')
+    assert.doesNotMatch(stream.output, /Interrupted/)
+  })
+
+  it('prints fail lines in line-based mode', async () => {
+    setExitHandling({ failText: true })
+    const spinnerStream = createStream(false)
+    const spinner = new Spinner({ text: 'Work', stream: spinnerStream })
+    await spinner.start()
+    process.emit('SIGINT', 'SIGINT')
+    assert.equal(spinnerStream.output, '- Work\n✖ Work\n')
+    const taskStream = createStream(false)
+    const tasks = new TaskList([{ title: 'Build', run: () => new Promise(() => {}) }], {
+      stream: taskStream
+    })
+    void tasks.run()
+    await new Promise(resolve => setImmediate(resolve))
+    process.emit('SIGINT', 'SIGINT')
+    assert.equal(taskStream.output, '- Build\n✖ Build\n')
+  })
+})
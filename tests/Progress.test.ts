@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { Progress, setColorLevel, visibleWidth } from '../src/index'
+import { createStream, wait } from './helpers'
+
+before(() => setColorLevel('none'))
+
+describe('styles', () => {
+  const render = (style: 'smooth' | 'ascii', value: number, width = 10): string => {
+    const progress = new Progress({ total: 80, style, width, format: '|{bar}|' })
+    progress.update(value)
+    return progress.format()
+  }
+
+  it('fills smooth bars in eighths of a cell', () => {
+    assert.equal(render('smooth', 0), '|          |')
+    assert.equal(render('smooth', 1), '|▏         |')
+    assert.equal(render('smooth', 13), '|█▋        |')
+    assert.equal(render('smooth', 80), '|██████████|')
+  })
+
+  it('draws ascii bars within the width, including the brackets', () => {
+    assert.equal(render('ascii', 0, 12), '|[          ]|')
+    assert.equal(render('ascii', 40, 12), '|[====>     ]|')
+    assert.equal(render('ascii', 79, 12), '|[========> ]|')
+    assert.equal(render('ascii', 80, 12), '|[==========]|')
+  })
+
+  it('rejects unknown styles', () => {
+    assert.throws(() => new Progress({ style: 'wave' as never }), /must be one of/)
+  })
+})
+
+describe('indeterminate animation', () => {
+  it('advances with time rather than with updates', async () => {
+    const progress = new Progress({
+      stream: createStream(),
+      interactive: true,
+      width: 10,
+      interval: 20
+    })
+    await progress.start()
+    const frame = progress.format()
+    for (let value = 1; value <= 20; value++) {
+      progress.update(value)
+    }
+    assert.equal(progress.format(), frame)
+    await wait(70)
+    assert.notEqual(progress.format(), frame)
+    await progress.stop()
+  })
+
+  it('holds its frame while paused', async () => {
+    const progress = new Progress({
+      stream: createStream(),
+      interactive: true,
+      width: 10,
+      interval: 20
+    })
+    await progress.start()
+    await wait(30)
+    progress.pause()
+    const frame = progress.format()
+    await wait(70)
+    assert.equal(progress.format(), frame)
+    await progress.stop()
+  })
+})
+
+describe('segments', () => {
+  const createProgress = (): Progress =>
+    new Progress({
+      total: 10,
+      stream: createStream(false),
+      segments: [{ name: 'ok' }, { name: 'bad' }],
+      format: '{ok} {bad} {value}/{total}'
+    })
+
+  it('reduces the last segments first when the total shrinks', () => {
+    const progress = createProgress()
+    progress.increment(3, 'ok')
+    progress.increment(5, 'bad')
+    progress.setTotal(4)
+    assert.equal(progress.current, 4)
+    assert.equal(progress.format(), '3 1 4/4')
+    progress.setTotal(2)
+    assert.equal(progress.format(), '2 0 2/2')
+  })
+
+  it('takes a decrease from the segments in order', () => {
+    const progress = createProgress()
+    progress.increment(5, 'bad')
+    progress.update(2)
+    assert.equal(progress.current, 2)
+    assert.equal(progress.format(), '0 2 2/10')
+    progress.increment(3, 'ok')
+    progress.update(4)
+    assert.equal(progress.format(), '2 2 4/10')
+  })
+
+  it('adds an increase to the first segment', () => {
+    const progress = createProgress()
+    progress.increment(2, 'bad')
+    progress.update(6)
+    assert.equal(progress.format(), '4 2 6/10')
+  })
+
+  it('keeps the segments when the total still fits', () => {
+    const progress = createProgress()
+    progress.increment(3, 'ok')
+    progress.increment(5, 'bad')
+    progress.setTotal(8)
+    assert.equal(progress.format(), '3 5 8/8')
+  })
+})
+
+describe('width', () => {
+  it('uses a fixed number of cells', () => {
+    const progress = new Progress({ total: 10, width: 12, stream: createStream(false) })
+    assert.equal(visibleWidth(progress.format().split(' ')[0] ?? ''), 12)
+  })
+
+  it('fits the terminal columns, counting wide characters as two cells', () => {
+    const stream = Object.assign(createStream(), { columns: 40 })
+    const progress = new Progress({ total: 10, width: 'auto', text: '日本語 👍', stream })
+    assert.equal(visibleWidth(progress.format()), 39)
+  })
+})
+
+describe('line-based mode', () => {
+  it('prints a line at every 10% milestone', async () => {
+    const stream = createStream(false)
+    const progress = new Progress({ total: 40, stream, format: '{value}/{total}' })
+    await progress.start()
+    for (let value = 1; value <= 40; value++) {
+      progress.update(value)
+    }
+    await progress.succeed('Copied')
+    const lines = stream.output.split('\n')
+    assert.deepEqual(lines.slice(0, 3), ['0/40', '4/40', '8/40'])
+    assert.deepEqual(lines.slice(-3), ['40/40', '✔ Copied', ''])
+    assert.equal(lines.length, 13)
+    assert.doesNotMatch(stream.output, /\r|\x1b/)
+  })
+})
+
+describe('pause and resume', () => {
+  it('excludes the paused time from the elapsed token', async () => {
+    const progress = new Progress({ total: 10, stream: createStream(false), format: '{elapsed}' })
+    const withPauses = new Progress({
+      total: 10,
+      stream: createStream(false),
+      format: '{elapsed}',
+      includePausedTime: true
+    })
+    await progress.start()
+    await withPauses.start()
+    progress.pause()
+    withPauses.pause()
+    await wait(300)
+    assert.equal(progress.format(), '0.0s')
+    progress.resume()
+    withPauses.resume()
+    assert.equal(progress.format(), '0.0s')
+    assert.match(withPauses.format(), /^0\.[3-9]s$/)
+    await progress.stop()
+    await withPauses.stop()
+  })
+
+  it('ignores updates for the line until resumed', async () => {
+    const stream = createStream()
+    const progress = new Progress({
+      total: 10,
+      stream,
+      interactive: true,
+      hideCursor: false,
+      format: '{value}/{total}'
+    })
+    await progress.start()
+    progress.pause()
+    progress.update(5)
+    assert.doesNotMatch(stream.output, /5\/10/)
+    progress.resume()
+    assert.ok(stream.output.endsWith('5/10'))
+    await progress.stop()
+  })
+})
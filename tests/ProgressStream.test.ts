@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { Readable, Writable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { before, describe, it } from 'node:test'
+import { ConsoleKit, ProgressStream, setColorLevel } from '../src/index'
+import { createStream } from './helpers'
+
+before(() => setColorLevel('none'))
+
+/**
+ * Creates a writable stream collecting the chunks piped into it
+ *
+ * @param chunks - Array receiving every chunk
+ * @returns Writable stream pushing to the array
+ */
+const createSink = (chunks: Buffer[]): Writable => {
+  return new Writable({
+    write(chunk: Buffer, _encoding, callback): void {
+      chunks.push(chunk)
+      callback()
+    }
+  })
+}
+
+describe('ProgressStream', () => {
+  it('passes data through and advances by the bytes of each chunk', async () => {
+    const stream = createStream(false)
+    const progress = new ProgressStream({
+      text: 'Copy',
+      total: 100,
+      stream,
+      format: '{value}/{total}'
+    })
+    const chunks: Buffer[] = []
+    const source = Readable.from([25, 25, 25, 25].map(size => Buffer.alloc(size, 'a')))
+    await pipeline(source, progress, createSink(chunks))
+    assert.equal(Buffer.concat(chunks).toString(), 'a'.repeat(100))
+    assert.equal(progress.progress.current, 100)
+    assert.equal(stream.output, '0/100\n25/100\n50/100\n75/100\n100/100\n✔ Copy\n')
+  })
+
+  it('fails the bar when the source errors', async () => {
+    const stream = createStream(false)
+    const progress = ConsoleKit.progressStream({ text: 'Copy', total: 100, stream })
+    const source = new Readable({
+      read(): void {
+        this.destroy(new Error('disk gone'))
+      }
+    })
+    await assert.rejects(pipeline(source, progress, createSink([])), /disk gone/)
+    assert.ok(stream.output.endsWith('✖ Copy\n'))
+  })
+})
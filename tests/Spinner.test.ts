@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { ConsoleKit, Progress, Spinner, isInteractiveStream, setColorLevel } from '../src/index'
+import { createStream, wait } from './helpers'
+
+before(() => setColorLevel('none'))
+
+describe('output stream', () => {
+  it('writes spinner frames and completion lines to the given stream', async () => {
+    const stream = createStream()
+    const spinner = new Spinner({ text: 'Work', stream, interactive: true })
+    await spinner.start()
+    await spinner.succeed('Done')
+    assert.match(stream.output, /Work/)
+    assert.ok(stream.output.endsWith('✔ Done\n'))
+  })
+
+  it('writes progress bars to the given stream', async () => {
+    const stream = createStream()
+    const progress = new Progress({
+      total: 2,
+      stream,
+      interactive: true,
+      format: '{value}/{total}'
+    })
+    await progress.start()
+    progress.update(1)
+    await progress.succeed('Copied')
+    assert.match(stream.output, /0\/2/)
+    assert.ok(stream.output.endsWith('✔ Copied\n'))
+  })
+
+  it('is honored by the ConsoleKit factories', async () => {
+    const spinnerStream = createStream()
+    const spinner = ConsoleKit.spinner('Work', { stream: spinnerStream, interactive: true })
+    await spinner.start()
+    await spinner.fail()
+    assert.ok(spinnerStream.output.endsWith('✖ Work\n'))
+    const progressStream = createStream()
+    const progress = ConsoleKit.progress('Copy', { stream: progressStream, interactive: true })
+    await progress.start()
+    await progress.warn()
+    assert.ok(progressStream.output.endsWith('⚠ Copy\n'))
+  })
+})
+
+describe('line-based mode', () => {
+  it('is used for streams without a terminal and in CI', () => {
+    const ci = process.env['CI']
+    try {
+      delete process.env['CI']
+      assert.equal(isInteractiveStream(createStream()), true)
+      assert.equal(isInteractiveStream(createStream(false)), false)
+      process.env['CI'] = 'true'
+      assert.equal(isInteractiveStream(createStream()), false)
+      process.env['CI'] = 'false'
+      assert.equal(isInteractiveStream(createStream()), true)
+    } finally {
+      if (ci === undefined) {
+        delete process.env['CI']
+      } else {
+        process.env['CI'] = ci
+      }
+    }
+  })
+
+  it('prints the spinner text once and the completion line', async () => {
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Work', stream })
+    await spinner.start()
+    spinner.updateText('Still working')
+    await spinner.succeed('Done')
+    assert.equal(stream.output, '- Work\n✔ Done\n')
+  })
+
+  it('can be forced on a terminal', async () => {
+    const stream = createStream()
+    const spinner = new Spinner({ text: 'Work', stream, interactive: false })
+    await spinner.start()
+    await spinner.fail()
+    assert.equal(stream.output, '- Work\n✖ Work\n')
+  })
+})
+
+describe('promise', () => {
+  it('resolves to the value of the work and succeeds', async () => {
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Fetch', stream })
+    const result = await spinner.promise(async () => 42, {
+      successText: value => `Fetched ${value}`
+    })
+    assert.equal(result, 42)
+    assert.equal(stream.output, '- Fetch\n✔ Fetched 42\n')
+  })
+
+  it('accepts a pending promise', async () => {
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Fetch', stream })
+    assert.equal(await spinner.promise(Promise.resolve('ok')), 'ok')
+    assert.ok(stream.output.endsWith('✔ Fetch\n'))
+  })
+
+  it('fails and re-throws the original error', async () => {
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Fetch', stream })
+    const error = new Error('offline')
+    await assert.rejects(
+      spinner.promise(
+        () => {
+          throw error
+        },
+        { failText: reason => `Failed: ${(reason as Error).message}` }
+      ),
+      error
+    )
+    assert.ok(stream.output.endsWith('✖ Failed: offline\n'))
+  })
+})
+
+describe('pause and resume', () => {
+  it('clears the line while paused and animates again once resumed', async () => {
+    const stream = createStream()
+    const spinner = new Spinner({ text: 'Work', stream, interactive: true, hideCursor: false })
+    await spinner.start()
+    spinner.pause()
+    assert.equal(spinner.isPaused, true)
+    assert.ok(stream.output.endsWith('\r\x1b[K'))
+    const paused = stream.output
+    await wait(200)
+    assert.equal(stream.output, paused)
+    spinner.updateText('Again')
+    spinner.resume()
+    assert.equal(spinner.isPaused, false)
+    assert.ok(stream.output.endsWith('Again'))
+    await spinner.stop()
+  })
+
+  it('excludes the paused time from the elapsed time', async () => {
+    const spinner = new Spinner({ stream: createStream(false) })
+    const withPauses = new Spinner({ stream: createStream(false), includePausedTime: true })
+    await spinner.start()
+    await withPauses.start()
+    spinner.pause()
+    withPauses.pause()
+    await wait(200)
+    spinner.resume()
+    withPauses.resume()
+    await spinner.stop()
+    await withPauses.stop()
+    assert.ok(spinner.elapsed < 100)
+    assert.ok(withPauses.elapsed >= 200)
+  })
+
+  it('prints only the completion line when stopped while paused', async () => {
+    const stream = createStream()
+    const spinner = new Spinner({ text: 'Work', stream, interactive: true, hideCursor: false })
+    await spinner.start()
+    spinner.pause()
+    const paused = stream.output
+    await spinner.succeed()
+    assert.equal(stream.output, `${paused}✔ Work\n`)
+  })
+})
+
+describe('elapsed time', () => {
+  it('is rendered after the text while running', async () => {
+    const spinner = new Spinner({ text: 'Build', stream: createStream(false), showElapsed: true })
+    assert.equal(spinner.format(0), '⠋ Build')
+    await spinner.start()
+    await wait(150)
+    assert.match(spinner.format(0), /^⠋ Build \(0\.[1-9]s\)$/)
+    await spinner.stop()
+    assert.equal(spinner.format(0), '⠋ Build')
+  })
+
+  it('is frozen once the spinner stops', async () => {
+    const spinner = new Spinner({ stream: createStream(false) })
+    assert.equal(spinner.elapsed, 0)
+    await spinner.start()
+    await wait(50)
+    await spinner.stop()
+    const { elapsed } = spinner
+    assert.ok(elapsed >= 50)
+    await wait(50)
+    assert.equal(spinner.elapsed, elapsed)
+  })
+
+  it('appends the total duration to completion lines', async () => {
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Build', stream, showDuration: true })
+    await spinner.start()
+    await spinner.fail('Build failed')
+    assert.match(stream.output, /✖ Build failed \(0\.0s\)\n$/)
+  })
+})
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { afterEach, before, describe, it, mock } from 'node:test'
+import {
+  Spinner,
+  getSpinnerStyle,
+  getSpinnerStyleNames,
+  registerSpinnerStyle,
+  registerSpinnerStyles,
+  setColorLevel
+} from '../src/index'
+import type { SpinnerStyleDefinition } from '../src/index'
+import { createStream } from './helpers'
+
+declare module '../src/index' {
+  interface SpinnerStyleRegistry {
+    steps: SpinnerStyleDefinition
+  }
+}
+
+before(() => setColorLevel('none'))
+
+describe('spinner style registry', () => {
+  it('provides the built-in catalog', () => {
+    assert.ok(getSpinnerStyleNames().includes('dots'))
+    assert.equal(getSpinnerStyle('dots')?.frames[0], '⠋')
+    assert.equal(getSpinnerStyle('missing'), undefined)
+  })
+
+  it('registers styles by name and from cli-spinners JSON', () => {
+    registerSpinnerStyle('arrows', { frames: ['<', '>'], interval: 50 })
+    registerSpinnerStyles('{"pulse": {"frames": ["o", "O"], "interval": 120}}')
+    assert.deepEqual(getSpinnerStyle('arrows'), { frames: ['<', '>'], interval: 50 })
+    assert.deepEqual(getSpinnerStyle('pulse'), { frames: ['o', 'O'], interval: 120 })
+  })
+
+  it('rejects invalid definitions', () => {
+    assert.throws(() => registerSpinnerStyle('', { frames: ['a'] }), /non-empty string/)
+    assert.throws(() => registerSpinnerStyle('empty', { frames: [] }), /non-empty string frames/)
+    assert.throws(() => registerSpinnerStyle('zero', { frames: ['a'], interval: 0 }))
+    assert.throws(() => registerSpinnerStyles('{'))
+  })
+})
+
+describe('Spinner styles', () => {
+  afterEach(() => mock.restoreAll())
+
+  it('uses the frames and interval of a registered style', () => {
+    registerSpinnerStyle('steps', { frames: ['1', '2'], interval: 40 })
+    const spinner = new Spinner({ text: 'Work', style: 'steps', stream: createStream() })
+    assert.equal(spinner.format(1), '2 Work')
+    assert.equal(spinner.frameInterval, 40)
+  })
+
+  it('falls back with a warning for invalid custom spinners', () => {
+    const warn = mock.method(console, 'warn', () => {})
+    const empty = new Spinner({ text: 'Work', spinner: [], stream: createStream() })
+    const slow = new Spinner({
+      text: 'Work',
+      spinner: { frames: ['a'], interval: -1 },
+      stream: createStream()
+    })
+    assert.equal(warn.mock.callCount(), 2)
+    assert.equal(empty.format(0), '⠋ Work')
+    assert.equal(slow.format(0), '⠋ Work')
+    assert.equal(slow.frameInterval, 80)
+  })
+})
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ConsoleKit, createStyler, setColorLevel, style } from '../src/index'
+
+describe('styler', () => {
+  beforeEach(() => setColorLevel('ansi16'))
+  afterEach(() => setColorLevel(undefined))
+
+  it('chains colors and modifiers, closing each with its own sequence', () => {
+    assert.equal(style.red.bold('text'), '\x1b[31m\x1b[1mtext\x1b[22m\x1b[39m')
+    assert.equal(ConsoleKit.style.hex('#ff8800').bgBlue('x'), '\x1b[33m\x1b[44mx\x1b[49m\x1b[39m')
+    assert.equal(style.green('a', 1, true), '\x1b[32ma 1 true\x1b[39m')
+  })
+
+  it('restores the outer style after nested styled text', () => {
+    assert.equal(
+      style.red(`a ${style.blue('b')} c`),
+      '\x1b[31ma \x1b[34mb\x1b[39m\x1b[31m c\x1b[39m'
+    )
+    assert.equal(style.bold(`a ${style.dim('b')} c`), '\x1b[1ma \x1b[2mb\x1b[22m\x1b[1m c\x1b[22m')
+  })
+
+  it('follows the color level when the text is styled', () => {
+    const styler = createStyler().rgb(255, 136, 0)
+    setColorLevel('truecolor')
+    assert.equal(styler('x'), '\x1b[38;2;255;136;0mx\x1b[39m')
+    setColorLevel('ansi256')
+    assert.equal(styler('x'), '\x1b[38;5;214mx\x1b[39m')
+    setColorLevel('none')
+    assert.equal(styler('x'), 'x')
+  })
+
+  it('leaves empty text unstyled', () => {
+    assert.equal(style.red(''), '')
+  })
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+import { Progress, Spinner, getStatusSymbol, setColorLevel, setSymbols } from '../src/index'
+import { createStream } from './helpers'
+
+describe('status symbols', () => {
+  const term = process.env['TERM']
+
+  afterEach(() => {
+    setSymbols(undefined)
+    setColorLevel(undefined)
+    if (term === undefined) {
+      delete process.env['TERM']
+    } else {
+      process.env['TERM'] = term
+    }
+  })
+
+  it('uses the default glyphs and colors', () => {
+    process.env['TERM'] = 'xterm'
+    assert.deepEqual(getStatusSymbol('succeed'), { symbol: '✔', color: 'green' })
+    assert.deepEqual(getStatusSymbol('info'), { symbol: 'ℹ', color: 'blue' })
+  })
+
+  it('falls back to ASCII-compatible glyphs without Unicode support', () => {
+    process.env['TERM'] = 'linux'
+    assert.deepEqual(
+      ['succeed', 'fail', 'warn', 'info'].map(
+        status => getStatusSymbol(status as 'succeed').symbol
+      ),
+      ['√', '×', '‼', 'i']
+    )
+  })
+
+  it('prefers instance symbols over global symbols over the defaults', () => {
+    setSymbols({ succeed: { symbol: 'OK' }, fail: { symbol: 'NO', color: 'magenta' } })
+    assert.deepEqual(getStatusSymbol('succeed'), { symbol: 'OK', color: 'green' })
+    assert.deepEqual(getStatusSymbol('fail', { fail: { symbol: 'X' } }), {
+      symbol: 'X',
+      color: 'magenta'
+    })
+  })
+
+  it('applies the symbols to completion lines', async () => {
+    setColorLevel('none')
+    setSymbols({ warn: { symbol: '!' } })
+    const stream = createStream(false)
+    const progress = new Progress({ text: 'Copy', stream, symbols: { succeed: { symbol: '+' } } })
+    await progress.start()
+    await progress.succeed()
+    const spinner = new Spinner({ text: 'Work', stream })
+    await spinner.start()
+    await spinner.warn()
+    assert.match(stream.output, /\+ Copy\n/)
+    assert.ok(stream.output.endsWith('! Work\n'))
+  })
+
+  it('persists arbitrary end states', async () => {
+    setColorLevel('ansi16')
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Work', stream })
+    await spinner.start()
+    await spinner.stopAndPersist({ symbol: '★', text: 'Starred', color: 'yellow' })
+    assert.ok(stream.output.endsWith('\x1b[33m★\x1b[0m Starred\n'))
+    const plain = new Spinner({ text: 'Work', stream })
+    await plain.start()
+    await plain.stopAndPersist()
+    assert.ok(stream.output.endsWith('\nWork\n'))
+  })
+})
@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { ConsoleKit, TaskList, setColorLevel } from '../src/index'
+import type { TaskContext, TaskResult } from '../src/index'
+import { createStream, wait } from './helpers'
+
+before(() => setColorLevel('none'))
+
+/**
+ * Lists the title and status of every task in tree order
+ *
+ * @param tasks - Task results to flatten
+ * @returns Entries of the form 'title:status'
+ */
+const statuses = (tasks: TaskResult[]): string[] => {
+  return tasks.flatMap(task => [`${task.title}:${task.status}`, ...statuses(task.subtasks)])
+}
+
+describe('TaskList', () => {
+  it('runs tasks in order with a shared context and nested subtasks', async () => {
+    const stream = createStream(false)
+    const list = new TaskList<TaskContext>(
+      [
+        {
+          title: 'Install',
+          run: context => {
+            context['installed'] = true
+          }
+        },
+        {
+          title: 'Build',
+          subtasks: [
+            { title: 'Compile', run: context => assert.equal(context['installed'], true) },
+            { title: 'Bundle' }
+          ]
+        }
+      ],
+      { stream }
+    )
+    const result = await list.run()
+    assert.equal(result.success, true)
+    assert.deepEqual(statuses(result.tasks), [
+      'Install:succeeded',
+      'Build:succeeded',
+      'Compile:succeeded',
+      'Bundle:succeeded'
+    ])
+    assert.equal(
+      stream.output,
+      [
+        '- Install',
+        '✔ Install',
+        '- Build',
+        '  - Compile',
+        '  ✔ Compile',
+        '  - Bundle',
+        '  ✔ Bundle',
+        '✔ Build',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('skips and hides tasks through their predicates', async () => {
+    const stream = createStream(false)
+    const result = await ConsoleKit.tasks(
+      [
+        { title: 'Lint', skip: () => 'no changes' },
+        { title: 'Deploy', enabled: async () => false },
+        { title: 'Report', run: (_context, task) => task.skip() }
+      ],
+      { stream }
+    ).run()
+    assert.deepEqual(statuses(result.tasks), ['Lint:skipped', 'Deploy:disabled', 'Report:skipped'])
+    assert.equal(result.tasks[0]?.skipReason, 'no changes')
+    assert.doesNotMatch(stream.output, /Deploy/)
+    assert.match(stream.output, /⚠ Lint \[skipped: no changes\]\n/)
+  })
+
+  it('aborts the remaining siblings when a task fails', async () => {
+    const error = new Error('tests failed')
+    const tasks = [
+      {
+        title: 'Test',
+        run: (): void => {
+          throw error
+        }
+      },
+      { title: 'Publish' }
+    ]
+    const aborted = await new TaskList(tasks, { stream: createStream(false) }).run()
+    assert.equal(aborted.success, false)
+    assert.equal(aborted.tasks[0]?.error, error)
+    assert.deepEqual(statuses(aborted.tasks), ['Test:failed', 'Publish:aborted'])
+    const continued = await new TaskList(tasks, {
+      stream: createStream(false),
+      exitOnError: false
+    }).run()
+    assert.deepEqual(statuses(continued.tasks), ['Test:failed', 'Publish:succeeded'])
+  })
+
+  it('fails a parent when one of its subtasks fails', async () => {
+    const result = await new TaskList(
+      [
+        {
+          title: 'Build',
+          subtasks: [
+            {
+              title: 'Compile',
+              run: (): void => {
+                throw new Error('syntax error')
+              }
+            },
+            { title: 'Bundle' }
+          ]
+        }
+      ],
+      { stream: createStream(false) }
+    ).run()
+    assert.deepEqual(statuses(result.tasks), ['Build:failed', 'Compile:failed', 'Bundle:aborted'])
+    assert.match(String(result.tasks[0]?.error), /syntax error/)
+  })
+
+  it('limits the number of tasks running at the same time', async () => {
+    let running = 0
+    let maximum = 0
+    const run = async (): Promise<void> => {
+      running++
+      maximum = Math.max(maximum, running)
+      await wait(20)
+      running--
+    }
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map(title => ({ title, run }))
+    const result = await new TaskList(tasks, {
+      stream: createStream(false),
+      concurrent: 2
+    }).run()
+    assert.equal(result.success, true)
+    assert.equal(maximum, 2)
+  })
+
+  it('renders the final tree with durations in interactive mode', async () => {
+    const stream = createStream()
+    await new TaskList([{ title: 'Build', subtasks: [{ title: 'Compile' }] }], {
+      stream,
+      interactive: true,
+      hideCursor: false,
+      showDuration: true
+    }).run()
+    const final = stream.output.slice(stream.output.lastIndexOf('\r') + 1)
+    assert.match(final, /^✔ Build \(0\.\ds\)\n {2}✔ Compile \(0\.\ds\)\n$/)
+  })
+
+  it('rejects invalid concurrency settings', () => {
+    assert.throws(() => new TaskList([], { concurrent: 0 }))
+    assert.throws(() => new TaskList([{ title: 'Group', concurrent: 1.5 }]))
+  })
+})
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+  Spinner,
+  formatHyperlink,
+  isHyperlinkSupported,
+  setColorLevel,
+  stripAnsi,
+  visibleWidth
+} from '../src/index'
+import { createStream } from './helpers'
+
+/** Environment variables read by the hyperlink detection */
+const HYPERLINK_ENV = [
+  'CI',
+  'FORCE_HYPERLINK',
+  'TERM',
+  'TERM_PROGRAM',
+  'VTE_VERSION',
+  'WT_SESSION',
+  'KONSOLE_VERSION'
+] as const
+
+describe('stripAnsi', () => {
+  it('removes styles, cursor sequences and hyperlinks', () => {
+    assert.equal(stripAnsi('\x1b[1;31mred\x1b[0m\x1b[2K'), 'red')
+    assert.equal(stripAnsi('\x1b]8;;https://example.com\x07link\x1b]8;;\x07'), 'link')
+  })
+})
+
+describe('visibleWidth', () => {
+  it('counts one cell per narrow character and ignores escape sequences', () => {
+    assert.equal(visibleWidth('abc'), 3)
+    assert.equal(visibleWidth('\x1b[32mabc\x1b[39m'), 3)
+  })
+
+  it('counts two cells for East Asian wide characters', () => {
+    assert.equal(visibleWidth('日本語'), 6)
+    assert.equal(visibleWidth('한국'), 4)
+    assert.equal(visibleWidth('ＡＢ'), 4)
+  })
+
+  it('counts two cells per emoji, including sequences', () => {
+    assert.equal(visibleWidth('👍'), 2)
+    assert.equal(visibleWidth('👨‍👩‍👧'), 2)
+    assert.equal(visibleWidth('🇯🇵'), 2)
+    assert.equal(visibleWidth('❤️'), 2)
+  })
+
+  it('counts no cells for combining marks and zero-width characters', () => {
+    assert.equal(visibleWidth('e\u0301'), 1)
+    assert.equal(visibleWidth('a\u200bb'), 2)
+  })
+})
+
+describe('hyperlinks', () => {
+  const saved = new Map<string, string | undefined>()
+
+  beforeEach(() => {
+    for (const name of HYPERLINK_ENV) {
+      saved.set(name, process.env[name])
+      delete process.env[name]
+    }
+  })
+
+  afterEach(() => {
+    for (const [name, value] of saved) {
+      if (value === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = value
+      }
+    }
+    setColorLevel(undefined)
+  })
+
+  it('are detected from the terminal and FORCE_HYPERLINK', () => {
+    assert.equal(isHyperlinkSupported(createStream()), false)
+    process.env['TERM_PROGRAM'] = 'WezTerm'
+    assert.equal(isHyperlinkSupported(createStream()), true)
+    assert.equal(isHyperlinkSupported(createStream(false)), false)
+    process.env['FORCE_HYPERLINK'] = '0'
+    assert.equal(isHyperlinkSupported(createStream()), false)
+    process.env['FORCE_HYPERLINK'] = '1'
+    assert.equal(isHyperlinkSupported(createStream(false)), true)
+  })
+
+  it('are written as OSC 8 sequences when supported', () => {
+    process.env['FORCE_HYPERLINK'] = '1'
+    const url = 'https://example.com/log'
+    assert.equal(formatHyperlink('log', url), `\x1b]8;;${url}\x1b\\log\x1b]8;;\x1b\\`)
+    assert.equal(visibleWidth(formatHyperlink('log', url)), 3)
+  })
+
+  it('fall back to plain text with the URL', () => {
+    const url = 'https://example.com/log'
+    const stream = createStream(false)
+    assert.equal(formatHyperlink('log', url, stream), `log (${url})`)
+    assert.equal(formatHyperlink('log', url, stream, false), 'log')
+    assert.equal(formatHyperlink('', url, stream), url)
+    assert.equal(formatHyperlink('log', '', stream), 'log')
+  })
+
+  it('link spinner text, showing the URL only on completion lines', async () => {
+    setColorLevel('none')
+    const stream = createStream(false)
+    const spinner = new Spinner({ text: 'Build', link: 'https://ci.example.com/1', stream })
+    assert.equal(spinner.format(0), '⠋ Build')
+    await spinner.start()
+    await spinner.succeed()
+    assert.ok(stream.output.endsWith('✔ Build (https://ci.example.com/1)\n'))
+  })
+})
@@ -0,0 +1,39 @@
+import { Writable } from 'node:stream'
+
+/**
+ * Writable stream recording everything written to it
+ */
+export interface CapturedStream extends Writable {
+  /** Output written so far */
+  output: string
+  /** Reports a terminal so components animate */
+  isTTY: boolean
+}
+
+/**
+ * Creates a stream capturing the output of a component
+ *
+ * @param isTTY - Whether the stream reports a terminal (defaults to true)
+ * @returns Stream exposing the captured output
+ */
+export const createStream = (isTTY: boolean = true): CapturedStream => {
+  const stream = new Writable({
+    write(chunk, _encoding, callback): void {
+      stream.output += String(chunk)
+      callback()
+    }
+  }) as CapturedStream
+  stream.output = ''
+  stream.isTTY = isTTY
+  return stream
+}
+
+/**
+ * Waits for the given time
+ *
+ * @param ms - Delay in milliseconds
+ * @returns Promise resolving after the delay
+ */
+export const wait = (ms: number): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}